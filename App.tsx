@@ -1,99 +1,605 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { FileUpload } from './components/FileUpload.tsx';
 import { Dashboard } from './components/Dashboard.tsx';
 import { ComparativeView } from './components/ComparativeView.tsx';
 import { RevenueDashboard } from './components/RevenueDashboard.tsx';
 import { ExportModal } from './components/ExportModal.tsx';
 import { FullReport } from './components/FullReport.tsx';
-import { parseCSV } from './services/csvParser.ts';
-import { Transaction, DashboardMetadata, ExportOptions } from './types.ts';
-import { Loader2, ArrowLeft, User, UserCog, GitCompare, DollarSign, Download } from 'lucide-react';
-
-interface ReportData {
-  transactions: Transaction[];
-  metadata: DashboardMetadata;
-}
+import { ParseReview, ParsedFile, FileAssignment, mergeSourcesFor } from './components/ParseReview.tsx';
+import { ColumnMappingEditor } from './components/ColumnMappingEditor.tsx';
+import { ClassificationRulesEditor } from './components/ClassificationRulesEditor.tsx';
+import { MachineRegistryEditor } from './components/MachineRegistryEditor.tsx';
+import { ParseProgress, FileProgress } from './components/ParseProgress.tsx';
+import { ImportLibrary } from './components/ImportLibrary.tsx';
+import { TrendView } from './components/TrendView.tsx';
+import { NetworkOverview } from './components/NetworkOverview.tsx';
+import { ComparisonPicker } from './components/ComparisonPicker.tsx';
+import { UtilizationView } from './components/UtilizationView.tsx';
+import { SessionsView } from './components/SessionsView.tsx';
+import { CsvFormat } from './services/csvParser.ts';
+import { mergeParseResults } from './services/reportMerge.ts';
+import { UnitReports, buildUnitReports, isNetworkImport } from './services/networkSummary.ts';
+import { PeriodComparison, applyComparison } from './services/periodComparison.ts';
+import { UnitCapacities, UnitCapacitySettings, loadCapacities, saveCapacity, capacityForUnit } from './services/utilization.ts';
+import { RevenueTargets, loadTargets, saveTarget } from './services/monthProjection.ts';
+import { detectDowntime } from './services/downtime.ts';
+import { mergeTransactions } from './services/monthlyHistory.ts';
+import { ProjectFileError, ProjectSnapshot, parseProject, projectFileName, serializeProject, settingsDiffer } from './services/projectFile.ts';
+import { EncodingChoice } from './services/encoding.ts';
+import { LoadRequest, LoadedFile } from './services/fileLoader.ts';
+import { startParseJob, isCancelled, ParseJob } from './services/parserClient.ts';
+import { ColumnIndexMap, ColumnMappingProfile, loadProfiles, saveProfile, deleteProfile } from './services/columnMapping.ts';
+import { ClassificationRule, loadRules, saveRules, reclassify } from './services/classificationRules.ts';
+import { MachineRegistryConfig, loadMachineConfig, saveMachineConfig, applyMachineRegistry } from './services/machineRegistry.ts';
+import { BusinessDayCutoffs, loadCutoffs, saveCutoff, applyBusinessDay, cutoffForUnit } from './services/businessDay.ts';
+import {
+  StoredImport, StoredReports, StorageEstimate, UnitHistory, listImports, saveImport, loadImport, renameImport, deleteImport,
+  estimateStorage, listUnits, loadUnitHistory
+} from './services/datasetStore.ts';
+import { AppTab, ComparisonFilter, ExportOptions, ReportData } from './types.ts';
+import { ArrowLeft, User, UserCog, GitCompare, DollarSign, Download, Tags, WashingMachine, Network, Save, Gauge, Footprints } from 'lucide-react';
 
 const App: React.FC = () => {
   const [selfServiceData, setSelfServiceData] = useState<ReportData | null>(null);
   const [attendantData, setAttendantData] = useState<ReportData | null>(null);
-  const [activeTab, setActiveTab] = useState<'SELF_SERVICE' | 'ATTENDANT' | 'COMPARISON' | 'FINANCIAL'>('SELF_SERVICE');
+  const [activeTab, setActiveTab] = useState<AppTab>('SELF_SERVICE');
+  const [comparisonFilter, setComparisonFilter] = useState<ComparisonFilter>('BOTH');
+
+  // Every unit of a multi-unit import; the tabs above show the unit picked from it
+  const [network, setNetwork] = useState<UnitReports[] | null>(null);
+
+  // Comparison period for the KPI deltas and chart overlays of the unit tabs
+  const [comparison, setComparison] = useState<PeriodComparison | null>(null);
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Background parsing (Web Workers)
+  const [progress, setProgress] = useState<FileProgress[] | null>(null);
+  const jobsRef = useRef<ParseJob[]>([]);
+
+  // Parsed files awaiting user review before the dashboards open
+  const [pendingReview, setPendingReview] = useState<ParsedFile[] | null>(null);
+
+  // Column mapping profiles (persisted in localStorage)
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>(() => loadProfiles());
+  const [editingMappingIndex, setEditingMappingIndex] = useState<number | null>(null);
+
+  // Product classification rules (persisted in localStorage)
+  const [rules, setRules] = useState<ClassificationRule[]>(() => loadRules());
+  const [isRulesEditorOpen, setIsRulesEditorOpen] = useState(false);
+
+  // Machine names, capacities and merges (persisted in localStorage)
+  const [machineConfig, setMachineConfig] = useState<MachineRegistryConfig>(() => loadMachineConfig());
+  const [isMachineEditorOpen, setIsMachineEditorOpen] = useState(false);
+
+  // Business day start per unit (persisted in localStorage)
+  const [cutoffs, setCutoffs] = useState<BusinessDayCutoffs>(() => loadCutoffs());
+
+  // Opening hours and cycle lengths per unit, for the utilization tab
+  const [capacities, setCapacities] = useState<UnitCapacities>(() => loadCapacities());
+
+  // Monthly revenue target per unit, and the unit's stored sales for the month-end projection
+  const [targets, setTargets] = useState<RevenueTargets>(() => loadTargets());
+  // Set while a project's settings are in use without being saved to this device;
+  // edits then stay in memory too, until the next "Novo" brings the saved ones back
+  const [sessionSettings, setSessionSettings] = useState(false);
+  const [storedHistory, setStoredHistory] = useState<UnitHistory | null>(null);
+
+  // Past imports saved on the device (IndexedDB)
+  const [imports, setImports] = useState<StoredImport[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [trend, setTrend] = useState<{ units: string[]; history: UnitHistory | null } | null>(null);
+
   // Export State
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isPrinting, setIsPrinting] = useState(false);
   const [exportOptions, setExportOptions] = useState<ExportOptions | null>(null);
 
-  // Helper to read file as text
-  const readFile = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = (e) => reject(e);
-      reader.readAsText(file);
-    });
+  // Start parse jobs in Web Workers, tracking progress per file. Resolves when
+  // every file is done; a cancel or a failure stops all jobs of the batch.
+  const runParseJobs = async (requests: LoadRequest[]): Promise<LoadedFile[]> => {
+    setProgress(requests.map(r => ({ fileName: r.file.name, bytesRead: 0, totalBytes: r.file.size, rows: 0 })));
+    const jobs = requests.map((request, idx) =>
+      startParseJob(request, (p) => setProgress(prev => prev && prev.map((fp, i) => i === idx ? { ...fp, ...p } : fp)))
+    );
+    jobsRef.current = jobs;
+    try {
+      return await Promise.all(jobs.map(job => job.promise));
+    } catch (err) {
+      jobs.forEach(job => job.cancel());
+      throw err;
+    } finally {
+      jobsRef.current = [];
+      setProgress(null);
+    }
+  };
+
+  const handleCancelParsing = () => {
+    jobsRef.current.forEach(job => job.cancel());
+  };
+
+  const buildRequest = (file: ParsedFile, activeProfiles: ColumnMappingProfile[], forceAssignment: boolean): LoadRequest => {
+    const assignment = forceAssignment && file.assignment !== 'IGNORED' ? file.assignment : undefined;
+    // The vendor layouts are tied to one dashboard, so reassigning reads the file in the
+    // other vendor's layout; any other adapter keeps its layout and only feeds another dashboard
+    const readAsLayout = file.detectedFormat === CsvFormat.UNKNOWN
+      || file.detectedFormat === CsvFormat.SELF_SERVICE
+      || file.detectedFormat === CsvFormat.ATTENDANT;
+    return {
+      file: file.file,
+      encoding: file.encodingChoice,
+      sheetName: file.sheet?.name,
+      options: {
+        profiles: activeProfiles,
+        rules,
+        mapping: file.mapping,
+        format: assignment && readAsLayout && assignment !== file.detectedFormat ? assignment : undefined,
+        reportType: assignment && !readAsLayout ? assignment : undefined
+      }
+    };
   };
 
-  const handleProcessFiles = async (files: { selfService: File | null; attendant: File | null }) => {
+  // Re-run the parser for a file, honouring its assignment and manual mapping
+  const reparseFile = async (file: ParsedFile, activeProfiles: ColumnMappingProfile[] = profiles): Promise<ParsedFile> => {
+    const [loaded] = await runParseJobs([buildRequest(file, activeProfiles, true)]);
+    return { ...file, ...loaded };
+  };
+
+  const handleParseError = (err: unknown, message: string) => {
+    if (isCancelled(err)) return;
+    console.error(err);
+    setError(message);
+  };
+
+  const handleProcessFiles = async (files: File[], encoding: EncodingChoice) => {
     setLoading(true);
     setError(null);
     setSelfServiceData(null);
     setAttendantData(null);
 
     try {
-      let selfDataParsed = null;
-      let attendantDataParsed = null;
-
-      // 1. Process Self Service
-      if (files.selfService) {
-        const content = await readFile(files.selfService);
-        const parsed = parseCSV(content);
-        if (parsed.transactions.length > 0) {
-          if (parsed.metadata.reportType === 'ATTENDANT') {
-             console.warn("Warning: Attendant file uploaded in Self-Service slot");
-          }
-          selfDataParsed = parsed;
-          setSelfServiceData(parsed);
-        }
+      const loaded = await runParseJobs(files.map(file => ({ file, encoding, options: { profiles, rules } })));
+      setPendingReview(loaded.map((l, idx) => {
+        const detectedFormat = l.result.diagnostics.format;
+        return {
+          file: files[idx],
+          encodingChoice: encoding,
+          ...l,
+          detectedFormat,
+          detectedReportType: detectedFormat === CsvFormat.UNKNOWN ? null : l.result.metadata.reportType,
+          assignment: detectedFormat === CsvFormat.UNKNOWN ? 'IGNORED' : l.result.metadata.reportType
+        };
+      }));
+
+    } catch (err: any) {
+      handleParseError(err, 'Erro ao processar os arquivos. Verifique se estão no formato CSV, XLSX ou ODS correto.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updatePendingFile = (index: number, updated: ParsedFile) => {
+    setPendingReview(prev => prev && prev.map((f, idx) => idx === index ? updated : f));
+  };
+
+  // Runs a re-parse for one file of the review, keeping the review open on cancel
+  const withReparse = async (task: () => Promise<void>, errorMessage: string) => {
+    setLoading(true);
+    try {
+      await task();
+    } catch (err: any) {
+      handleParseError(err, errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAssign = (index: number, assignment: FileAssignment) => {
+    if (!pendingReview) return;
+    const target = pendingReview[index];
+    // Ignoring keeps the last parse; switching type re-reads the file in that layout
+    if (assignment === 'IGNORED') {
+      updatePendingFile(index, { ...target, assignment });
+      return;
+    }
+    withReparse(async () => {
+      updatePendingFile(index, await reparseFile({ ...target, assignment, mapping: undefined }));
+    }, 'Não foi possível reprocessar o arquivo.');
+  };
+
+  const handleAssignUnit = (index: number, unitName: string | null) => {
+    if (!pendingReview) return;
+    updatePendingFile(index, { ...pendingReview[index], unitName: unitName ?? undefined });
+  };
+
+  const handleSelectSheet = (index: number, sheetName: string) => {
+    if (!pendingReview) return;
+    const target = pendingReview[index];
+    if (!target.sheet) return;
+
+    withReparse(async () => {
+      const switched: ParsedFile = { ...target, sheet: { ...target.sheet!, name: sheetName }, mapping: undefined };
+      const [loaded] = await runParseJobs([buildRequest(switched, profiles, false)]);
+      const detectedFormat = loaded.result.diagnostics.format;
+      const updated: ParsedFile = {
+        ...switched,
+        ...loaded,
+        detectedFormat,
+        detectedReportType: detectedFormat === CsvFormat.UNKNOWN ? null : loaded.result.metadata.reportType,
+        assignment: detectedFormat === CsvFormat.UNKNOWN ? target.assignment : loaded.result.metadata.reportType
+      };
+      // A sheet without a recognizable signature is still read in the layout the user picked
+      const needsForcedFormat = detectedFormat === CsvFormat.UNKNOWN && updated.assignment !== 'IGNORED';
+      updatePendingFile(index, needsForcedFormat ? await reparseFile(updated) : updated);
+    }, 'Não foi possível ler a aba selecionada.');
+  };
+
+  const handleApplyMapping = (columns: ColumnIndexMap, profileName: string | null) => {
+    if (!pendingReview || editingMappingIndex === null) return;
+    const index = editingMappingIndex;
+    const target = pendingReview[index];
+    const { diagnostics } = target.result;
+    setEditingMappingIndex(null);
+
+    withReparse(async () => {
+      if (profileName) {
+        const nextProfiles = saveProfile(profileName, diagnostics.format, diagnostics.headerColumns, columns);
+        setProfiles(nextProfiles);
+        updatePendingFile(index, await reparseFile({ ...target, mapping: undefined }, nextProfiles));
+      } else {
+        updatePendingFile(index, await reparseFile({ ...target, mapping: columns }));
       }
+    }, 'Não foi possível aplicar o mapeamento de colunas.');
+  };
+
+  const withMachines = (data: ReportData | null, config: MachineRegistryConfig): ReportData | null =>
+    data && { ...data, transactions: applyMachineRegistry(data.transactions, config) };
+
+  const withBusinessDay = (data: ReportData | null, activeCutoffs: BusinessDayCutoffs): ReportData | null =>
+    data && { ...data, transactions: applyBusinessDay(data.transactions, cutoffForUnit(activeCutoffs, data.metadata.unitName)) };
+
+  const handleConfirmReview = () => {
+    if (!pendingReview) return;
 
-      // 2. Process Attendant
-      if (files.attendant) {
-        const content = await readFile(files.attendant);
-        const parsed = parseCSV(content);
-        if (parsed.transactions.length > 0) {
-           if (parsed.metadata.reportType === 'SELF_SERVICE') {
-             console.warn("Warning: Self-Service file uploaded in Attendant slot");
-           }
-           attendantDataParsed = parsed;
-           setAttendantData(parsed);
-        }
+    const prepare = (data: ReportData | null) => withBusinessDay(withMachines(data, machineConfig), cutoffs);
+
+    // A network opens the overview, one dataset per unit; the review has already
+    // warned about files whose unit is neither named nor picked
+    const selfSources = mergeSourcesFor(pendingReview, 'SELF_SERVICE');
+    const attendantSources = mergeSourcesFor(pendingReview, 'ATTENDANT');
+    if (isNetworkImport(selfSources, attendantSources)) {
+      const units = buildUnitReports(selfSources, attendantSources);
+      const prepared = units.map(u => ({ ...u, selfService: prepare(u.selfService), attendant: prepare(u.attendant) }));
+      setNetwork(prepared);
+      setSelfServiceData(null);
+      setAttendantData(null);
+      setActiveTab('NETWORK');
+      setPendingReview(null);
+      prepared.forEach(u => persistImport({ selfService: u.selfService, attendant: u.attendant }, u.fileNames));
+      return;
+    }
+
+    // Files assigned to the same report type are merged into one dataset
+    const selfReport = mergeParseResults(selfSources, 'SELF_SERVICE').report;
+    const attendantReport = mergeParseResults(attendantSources, 'ATTENDANT').report;
+    // The attendant export often lacks the unit name ("Unidade Desconhecida"); the
+    // self-service "Operador:" header names it, so the unit's settings apply to both
+    const selfDataParsed = prepare(selfReport);
+    const attendantDataParsed = prepare(selfReport && attendantReport
+      ? { ...attendantReport, metadata: { ...attendantReport.metadata, unitName: selfReport.metadata.unitName } }
+      : attendantReport);
+
+    setNetwork(null);
+    showReports(selfDataParsed, attendantDataParsed);
+    setPendingReview(null);
+
+    if (selfDataParsed || attendantDataParsed) {
+      const fileNames = pendingReview.filter(f => f.assignment !== 'IGNORED').map(f => f.file.name);
+      persistImport({ selfService: selfDataParsed, attendant: attendantDataParsed }, fileNames);
+    }
+  };
+
+  const showReports = (selfDataParsed: ReportData | null, attendantDataParsed: ReportData | null) => {
+    setSelfServiceData(selfDataParsed);
+    setAttendantData(attendantDataParsed);
+    // A comparison file belongs to the reports it was loaded against; splits carry over
+    setComparison(prev => prev?.kind === 'FILE' ? null : prev);
+
+    // Determine initial tab
+    if (selfDataParsed && attendantDataParsed) {
+      setActiveTab('FINANCIAL'); // Prioritize finance if both are present
+    } else if (selfDataParsed) {
+      setActiveTab('SELF_SERVICE');
+    } else if (attendantDataParsed) {
+      setActiveTab('ATTENDANT');
+    }
+  };
+
+  const handleSelectNetworkUnit = (unitName: string) => {
+    const unit = network?.find(u => u.unitName === unitName);
+    if (unit) showReports(unit.selfService, unit.attendant);
+  };
+
+  // Applies a transformation to every loaded report, including the other units of the network
+  const updateReports = (update: (data: ReportData | null) => ReportData | null) => {
+    setSelfServiceData(update);
+    setAttendantData(update);
+    setNetwork(prev => prev && prev.map(u => ({ ...u, selfService: update(u.selfService), attendant: update(u.attendant) })));
+    setComparison(prev => prev?.kind === 'FILE'
+      ? { ...prev, selfService: update(prev.selfService), attendant: update(prev.attendant) }
+      : prev);
+  };
+
+  // Exports of the comparison period skip the review: they are read with the
+  // saved mappings and tagged like the loaded reports
+  const handleLoadComparisonFiles = async (files: File[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await runParseJobs(files.map(file => ({ file, encoding: 'auto', options: { profiles, rules } })));
+      const sources = loaded.map((l, idx) => ({ fileName: files[idx].name, result: l.result }));
+      const reportFor = (type: ReportData['metadata']['reportType']) => withBusinessDay(withMachines(
+        mergeParseResults(sources.filter(s => s.result.metadata.reportType === type), type).report, machineConfig
+      ), cutoffs);
+      const selfService = reportFor('SELF_SERVICE');
+      const attendant = reportFor('ATTENDANT');
+      if (!selfService && !attendant) {
+        setError('Nenhuma transação encontrada nos arquivos de comparação.');
+        return;
       }
+      setComparison({ kind: 'FILE', selfService, attendant });
+    } catch (err) {
+      handleParseError(err, 'Erro ao processar os arquivos de comparação.');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Determine initial tab
-      if (selfDataParsed && attendantDataParsed) {
-        setActiveTab('FINANCIAL'); // Prioritize finance if both are present
-      } else if (selfDataParsed) {
-        setActiveTab('SELF_SERVICE');
-      } else if (attendantDataParsed) {
-        setActiveTab('ATTENDANT');
+  // --- Project files ---
+
+  const handleSaveProject = () => {
+    const snapshot: ProjectSnapshot = {
+      // A network carries every unit, so the unit tabs are restored from it by name
+      selfService: network ? null : selfServiceData,
+      attendant: network ? null : attendantData,
+      network,
+      rules,
+      machineConfig,
+      cutoffs,
+      capacities,
+      targets,
+      comparison,
+      ui: { activeTab, comparisonFilter, selectedUnit: network ? shownUnit : null }
+    };
+    const url = URL.createObjectURL(new Blob([serializeProject(snapshot)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = projectFileName(snapshot);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The project's rules, machines and cutoffs replace the ones in use, so later edits
+  // re-tag its transactions the same way the sender would
+  const handleOpenProject = async (file: File) => {
+    setError(null);
+    try {
+      const project = parseProject(await file.text());
+      // Compared with what this device has saved, not with what is in use
+      const local = { rules: loadRules(), machineConfig: loadMachineConfig(), cutoffs: loadCutoffs(), capacities: loadCapacities(), targets: loadTargets() };
+      const differs = settingsDiffer(project, local);
+      // The project's settings always apply to this session; they only replace
+      // this device's saved settings when the user agrees
+      const keepLocally = !differs || window.confirm(
+        'Salvar também neste dispositivo as configurações do projeto (regras, máquinas, horários de corte, capacidade e metas)?\n\n' +
+        'Cancelar usa essas configurações só nesta sessão e mantém as atuais salvas.'
+      );
+      if (differs && keepLocally) {
+        saveRules(project.rules);
+        saveMachineConfig(project.machineConfig);
+        Object.entries(project.cutoffs).forEach(([unitName, cutoff]) => saveCutoff(unitName, cutoff));
+        Object.entries(project.capacities).forEach(([unitName, settings]) => saveCapacity(unitName, settings));
+        Object.entries(project.targets).forEach(([unitName, target]) => saveTarget(unitName, target));
       }
+      setSessionSettings(!keepLocally);
+      setRules(project.rules);
+      setMachineConfig(project.machineConfig);
+      setCutoffs({ ...local.cutoffs, ...project.cutoffs });
+      setCapacities({ ...local.capacities, ...project.capacities });
+      setTargets({ ...local.targets, ...project.targets });
 
-    } catch (err: any) {
+      // A review left open would otherwise be confirmed over the project
+      setPendingReview(null);
+      setEditingMappingIndex(null);
+
+      const selected = project.network?.find(u => u.unitName === project.ui.selectedUnit);
+      setTrend(null);
+      setNetwork(project.network);
+      setSelfServiceData(selected ? selected.selfService : project.selfService);
+      setAttendantData(selected ? selected.attendant : project.attendant);
+      setComparison(project.comparison);
+      setActiveTab(project.ui.activeTab);
+      setComparisonFilter(project.ui.comparisonFilter);
+    } catch (err) {
       console.error(err);
-      setError('Erro ao processar os arquivos. Verifique se estão no formato CSV correto.');
-    } finally {
-      setLoading(false);
+      setError(err instanceof ProjectFileError ? err.message : 'Não foi possível abrir o projeto.');
+    }
+  };
+
+  // --- Import library ---
+
+  const refreshLibrary = async () => {
+    try {
+      setImports(await listImports());
+      setStorageEstimate(await estimateStorage());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  useEffect(() => {
+    refreshLibrary();
+  }, []);
+
+  // Saving runs in the background; a failure (e.g. storage full) doesn't block the dashboards
+  const persistImport = async (reports: StoredReports, fileNames: string[]) => {
+    try {
+      await saveImport(reports, fileNames);
+    } catch (err) {
+      console.error(err);
+      setError('Não foi possível salvar a importação neste dispositivo.');
+    }
+    refreshLibrary();
+  };
+
+  // Stored data is re-tagged with the current rules, machines and cutoffs
+  const handleOpenImport = async (id: string) => {
+    setError(null);
+    try {
+      const stored = await loadImport(id);
+      if (!stored) {
+        setError('Importação não encontrada.');
+        refreshLibrary();
+        return;
+      }
+      const prepare = (data: ReportData | null) => withBusinessDay(withMachines(
+        data && { ...data, transactions: reclassify(data.transactions, rules) }, machineConfig
+      ), cutoffs);
+      setNetwork(null);
+      showReports(prepare(stored.selfService), prepare(stored.attendant));
+    } catch (err) {
+      console.error(err);
+      setError('Não foi possível abrir a importação salva.');
+    }
+  };
+
+  const handleSelectHistoryUnit = async (unitName: string) => {
+    try {
+      const history = await loadUnitHistory(unitName);
+      const cutoff = cutoffForUnit(cutoffs, unitName);
+      const prepare = (transactions: ReportData['transactions']) =>
+        applyBusinessDay(applyMachineRegistry(reclassify(transactions, rules), machineConfig), cutoff);
+      setTrend(prev => prev && {
+        ...prev,
+        history: { unitName, selfService: prepare(history.selfService), attendant: prepare(history.attendant) }
+      });
+    } catch (err) {
+      console.error(err);
+      setError('Não foi possível carregar o histórico da unidade.');
+    }
+  };
+
+  const handleOpenHistory = async () => {
+    setError(null);
+    try {
+      const units = await listUnits();
+      setTrend({ units, history: null });
+      if (units.length > 0) handleSelectHistoryUnit(units[0]);
+    } catch (err) {
+      console.error(err);
+      setError('Não foi possível carregar o histórico.');
     }
   };
 
+  const handleRenameImport = async (id: string, name: string) => {
+    try {
+      await renameImport(id, name);
+    } catch (err) {
+      console.error(err);
+    }
+    refreshLibrary();
+  };
+
+  const handleDeleteImport = async (id: string) => {
+    const target = imports.find(i => i.id === id);
+    if (!window.confirm(`Excluir a importação "${target?.name || ''}" deste dispositivo?`)) return;
+    try {
+      await deleteImport(id);
+    } catch (err) {
+      console.error(err);
+      setError('Não foi possível excluir a importação.');
+    }
+    refreshLibrary();
+  };
+
+  // Saving the rules re-tags everything already loaded, no re-parse needed
+  const handleSaveRules = (nextRules: ClassificationRule[]) => {
+    if (!sessionSettings) saveRules(nextRules);
+    setRules(nextRules);
+    setIsRulesEditorOpen(false);
+
+    updateReports(data => data && { ...data, transactions: reclassify(data.transactions, nextRules) });
+    setPendingReview(prev => prev && prev.map(f => ({
+      ...f,
+      result: { ...f.result, transactions: reclassify(f.result.transactions, nextRules) }
+    })));
+  };
+
+  const handleSaveMachines = (nextConfig: MachineRegistryConfig) => {
+    if (!sessionSettings) saveMachineConfig(nextConfig);
+    setMachineConfig(nextConfig);
+    setIsMachineEditorOpen(false);
+    updateReports(data => withMachines(data, nextConfig));
+  };
+
+  // The cutoff belongs to the unit, so both reports of that unit move together.
+  // Edits go on top of what's in memory, which may hold a project's settings
+  // that were not saved to this device
+  const handleCutoffChange = (unitName: string, cutoff: string) => {
+    if (!sessionSettings) saveCutoff(unitName, cutoff);
+    const nextCutoffs = { ...cutoffs, [unitName]: cutoff };
+    setCutoffs(nextCutoffs);
+    updateReports(data => data && data.metadata.unitName === unitName ? withBusinessDay(data, nextCutoffs) : data);
+  };
+
+  const handleCapacityChange = (unitName: string, settings: UnitCapacitySettings) => {
+    if (!sessionSettings) saveCapacity(unitName, settings);
+    setCapacities(prev => ({ ...prev, [unitName]: settings }));
+  };
+
+  const handleTargetChange = (unitName: string, target: number | null) => {
+    if (!sessionSettings) saveTarget(unitName, target);
+    setTargets(prev => {
+      const next = { ...prev };
+      if (target === null) delete next[unitName];
+      else next[unitName] = target;
+      return next;
+    });
+  };
+
+  const networkReports = (): ReportData[] =>
+    (network || []).flatMap(u => [u.selfService, u.attendant]).filter((r): r is ReportData => r !== null);
+
+  const loadedTransactions = () => {
+    const reports = network ? networkReports() : [selfServiceData, attendantData];
+    return reports.flatMap(r => r?.transactions || []);
+  };
+
+  const loadedProducts = (): string[] => {
+    const sources = [selfServiceData, attendantData, ...networkReports(), ...(pendingReview || []).map(f => f.result)];
+    const names = new Set<string>();
+    sources.forEach(src => src?.transactions.forEach(t => names.add(t.productName)));
+    return Array.from(names).sort();
+  };
+
   const handleReset = () => {
     setSelfServiceData(null);
     setAttendantData(null);
+    setNetwork(null);
+    setComparison(null);
+    setComparisonFilter('BOTH');
+    setPendingReview(null);
     setError(null);
+    // Back to this device's saved settings after a project used its own
+    if (sessionSettings) {
+      setRules(loadRules());
+      setMachineConfig(loadMachineConfig());
+      setCutoffs(loadCutoffs());
+      setCapacities(loadCapacities());
+      setTargets(loadTargets());
+      setSessionSettings(false);
+    }
   };
 
   // Handle Printing Logic
@@ -130,16 +636,54 @@ const App: React.FC = () => {
   }, [isPrinting, exportOptions]);
 
 
-  const hasData = selfServiceData || attendantData;
+  const compared = useMemo(
+    () => applyComparison(selfServiceData, attendantData, comparison),
+    [selfServiceData, attendantData, comparison]
+  );
+  const unitTransactions = useMemo(
+    () => [...(compared.selfService?.transactions || []), ...(compared.attendant?.transactions || [])],
+    [compared]
+  );
+
+  const hasUnitData = selfServiceData || attendantData;
+  const shownUnit = (selfServiceData || attendantData)?.metadata.unitName ?? null;
+  const hasData = hasUnitData || network;
   const hasBoth = selfServiceData && attendantData;
 
+  // Only day, weekday and amount feed the projection, so the cutoff is the only tagging needed
+  useEffect(() => {
+    setStoredHistory(null);
+    if (!shownUnit) return;
+    let cancelled = false;
+    loadUnitHistory(shownUnit)
+      .then(history => {
+        const cutoff = cutoffForUnit(cutoffs, shownUnit);
+        if (!cancelled) setStoredHistory({
+          ...history,
+          selfService: applyBusinessDay(history.selfService, cutoff),
+          attendant: applyBusinessDay(history.attendant, cutoff)
+        });
+      })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [shownUnit, cutoffs]);
+
+  // Silences are judged against the unit's opening hours and operational days
+  const downtime = useMemo(
+    () => shownUnit
+      ? detectDowntime(unitTransactions, capacityForUnit(capacities, shownUnit), machineConfig, cutoffForUnit(cutoffs, shownUnit), shownUnit)
+      : null,
+    [unitTransactions, shownUnit, capacities, machineConfig, cutoffs]
+  );
+
+  // Stored months only count for the channels on screen
+  const projectionSample = useMemo(() => [
+    ...(selfServiceData ? mergeTransactions([selfServiceData.transactions, storedHistory?.selfService || []]) : []),
+    ...(attendantData ? mergeTransactions([attendantData.transactions, storedHistory?.attendant || []]) : [])
+  ], [selfServiceData, attendantData, storedHistory]);
+
   if (loading) {
-    return (
-      <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center text-slate-600">
-        <Loader2 className="w-12 h-12 animate-spin text-pink-600 mb-4" />
-        <p className="font-medium animate-pulse">Gerando relatórios...</p>
-      </div>
-    );
+    return <ParseProgress files={progress || []} onCancel={handleCancelParsing} />;
   }
 
   return (
@@ -154,6 +698,24 @@ const App: React.FC = () => {
         hasAttendant={!!attendantData}
       />
 
+      {isRulesEditorOpen && (
+        <ClassificationRulesEditor
+          rules={rules}
+          sampleProducts={loadedProducts()}
+          onSave={handleSaveRules}
+          onClose={() => setIsRulesEditorOpen(false)}
+        />
+      )}
+
+      {isMachineEditorOpen && (
+        <MachineRegistryEditor
+          transactions={loadedTransactions()}
+          config={machineConfig}
+          onSave={handleSaveMachines}
+          onClose={() => setIsMachineEditorOpen(false)}
+        />
+      )}
+
       {/* Print Overlay Container 
           Visible only when isPrinting is true. 
           This renders ON TOP of the current UI, ensuring standard DOM layout for charts.
@@ -161,23 +723,71 @@ const App: React.FC = () => {
       {isPrinting && exportOptions && (
         <div className="print-overlay">
           <FullReport 
-            selfServiceData={selfServiceData} 
-            attendantData={attendantData} 
+            selfServiceData={compared.selfService} 
+            attendantData={compared.attendant} 
             options={exportOptions} 
+            cutoffs={cutoffs}
+            comparison={compared}
+            projectionSample={projectionSample}
+            revenueTarget={shownUnit ? targets[shownUnit] ?? null : null}
+            downtime={downtime?.events}
           />
         </div>
       )}
 
       {/* Main Application Interface (Hidden via CSS @media print) */}
       <div className="no-print">
-        {!hasData ? (
+        {!hasData && pendingReview ? (
+          <div className="container mx-auto">
+            <ParseReview
+              files={pendingReview}
+              onConfirm={handleConfirmReview}
+              onCancel={() => setPendingReview(null)}
+              onEditMapping={setEditingMappingIndex}
+              onSelectSheet={handleSelectSheet}
+              onAssign={handleAssign}
+              onAssignUnit={handleAssignUnit}
+            />
+            {editingMappingIndex !== null && pendingReview[editingMappingIndex]?.result.diagnostics.mapping && (
+              <ColumnMappingEditor
+                fileName={pendingReview[editingMappingIndex].file.name}
+                headerColumns={pendingReview[editingMappingIndex].result.diagnostics.headerColumns}
+                previewRows={pendingReview[editingMappingIndex].result.diagnostics.previewRows}
+                initialColumns={pendingReview[editingMappingIndex].result.diagnostics.mapping!.columns}
+                profiles={profiles}
+                onApply={handleApplyMapping}
+                onDeleteProfile={(id) => setProfiles(deleteProfile(id))}
+                onClose={() => setEditingMappingIndex(null)}
+              />
+            )}
+          </div>
+        ) : !hasData && trend ? (
+          <TrendView
+            units={trend.units}
+            history={trend.history}
+            onSelectUnit={handleSelectHistoryUnit}
+            onClose={() => setTrend(null)}
+          />
+        ) : !hasData ? (
           <div className="container mx-auto">
-            <FileUpload onProcess={handleProcessFiles} />
+            <FileUpload
+              onProcess={handleProcessFiles}
+              onEditRules={() => setIsRulesEditorOpen(true)}
+              onOpenProject={handleOpenProject}
+            />
             {error && (
               <div className="max-w-md mx-auto mt-4 p-4 bg-red-50 text-red-600 text-center rounded-lg border border-red-100">
                 {error}
               </div>
             )}
+            <ImportLibrary
+              imports={imports}
+              storage={storageEstimate}
+              onOpen={handleOpenImport}
+              onRename={handleRenameImport}
+              onDelete={handleDeleteImport}
+              onOpenHistory={handleOpenHistory}
+            />
           </div>
         ) : (
           <div>
@@ -196,6 +806,20 @@ const App: React.FC = () => {
 
                   {/* Tabs */}
                   <div className="flex p-1 bg-slate-100 rounded-lg overflow-x-auto max-w-full">
+                    {network && (
+                      <button
+                        onClick={() => setActiveTab('NETWORK')}
+                        className={`
+                          flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md transition-all whitespace-nowrap
+                          ${activeTab === 'NETWORK' 
+                            ? 'bg-white text-blue-600 shadow-sm' 
+                            : 'text-slate-500 hover:text-slate-700'}
+                        `}
+                      >
+                        <Network className="w-4 h-4" /> Rede
+                      </button>
+                    )}
+
                     {selfServiceData && (
                       <button
                         onClick={() => setActiveTab('SELF_SERVICE')}
@@ -238,61 +862,166 @@ const App: React.FC = () => {
                       </button>
                     )}
 
-                    {/* Financial Tab - Always available if data exists */}
+                    {/* Financial Tab - Always available once a unit is loaded */}
+                    {hasUnitData && (
+                      <button
+                        onClick={() => setActiveTab('FINANCIAL')}
+                        className={`
+                          flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md transition-all whitespace-nowrap
+                          ${activeTab === 'FINANCIAL' 
+                            ? 'bg-white text-emerald-600 shadow-sm' 
+                            : 'text-slate-500 hover:text-slate-700'}
+                        `}
+                      >
+                        <DollarSign className="w-4 h-4" /> Financeiro
+                      </button>
+                    )}
+
+                    {hasUnitData && (
+                      <button
+                        onClick={() => setActiveTab('UTILIZATION')}
+                        className={`
+                          flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md transition-all whitespace-nowrap
+                          ${activeTab === 'UTILIZATION' 
+                            ? 'bg-white text-sky-600 shadow-sm' 
+                            : 'text-slate-500 hover:text-slate-700'}
+                        `}
+                      >
+                        <Gauge className="w-4 h-4" /> Capacidade
+                      </button>
+                    )}
+
+                    {/* Visits are rebuilt from self-service sales only */}
+                    {selfServiceData && (
+                      <button
+                        onClick={() => setActiveTab('SESSIONS')}
+                        className={`
+                          flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md transition-all whitespace-nowrap
+                          ${activeTab === 'SESSIONS' 
+                            ? 'bg-white text-teal-600 shadow-sm' 
+                            : 'text-slate-500 hover:text-slate-700'}
+                        `}
+                      >
+                        <Footprints className="w-4 h-4" /> Visitas
+                      </button>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2 self-end md:self-auto">
                     <button
-                      onClick={() => setActiveTab('FINANCIAL')}
-                      className={`
-                        flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md transition-all whitespace-nowrap
-                        ${activeTab === 'FINANCIAL' 
-                          ? 'bg-white text-emerald-600 shadow-sm' 
-                          : 'text-slate-500 hover:text-slate-700'}
-                      `}
+                      onClick={() => setIsMachineEditorOpen(true)}
+                      className="flex items-center gap-2 px-4 py-2 text-slate-600 text-sm font-medium rounded-full hover:bg-slate-100 transition-colors"
                     >
-                      <DollarSign className="w-4 h-4" /> Financeiro
+                      <WashingMachine className="w-4 h-4" /> Máquinas
+                    </button>
+                    <button
+                      onClick={() => setIsRulesEditorOpen(true)}
+                      className="flex items-center gap-2 px-4 py-2 text-slate-600 text-sm font-medium rounded-full hover:bg-slate-100 transition-colors"
+                    >
+                      <Tags className="w-4 h-4" /> Categorias
+                    </button>
+
+                    <button
+                      onClick={handleSaveProject}
+                      className="flex items-center gap-2 px-4 py-2 text-slate-600 text-sm font-medium rounded-full hover:bg-slate-100 transition-colors"
+                    >
+                      <Save className="w-4 h-4" /> Salvar projeto
                     </button>
-                  </div>
 
-                  {/* Export Button */}
-                  <button
-                    onClick={handleOpenExport}
-                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-bold rounded-full hover:bg-blue-700 transition-colors shadow-md hover:shadow-lg self-end md:self-auto"
-                  >
-                    <Download className="w-4 h-4" /> Exportar PDF
-                  </button>
+                    {/* Export Button */}
+                    <button
+                      onClick={handleOpenExport}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-bold rounded-full hover:bg-blue-700 transition-colors shadow-md hover:shadow-lg"
+                    >
+                      <Download className="w-4 h-4" /> Exportar PDF
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
 
             {/* Content Content */}
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-              {activeTab === 'SELF_SERVICE' && selfServiceData && (
+              {error && (
+                <div className="max-w-6xl mx-auto px-4 pt-4">
+                  <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg border border-red-100">{error}</div>
+                </div>
+              )}
+              {activeTab !== 'NETWORK' && hasUnitData && (
+                <ComparisonPicker
+                  comparison={comparison}
+                  label={compared.label}
+                  unavailable={compared.unavailable}
+                  onChange={setComparison}
+                  onLoadFiles={handleLoadComparisonFiles}
+                />
+              )}
+              {activeTab === 'NETWORK' && network && (
+                <NetworkOverview units={network} onSelectUnit={handleSelectNetworkUnit} />
+              )}
+              {activeTab === 'SELF_SERVICE' && compared.selfService && (
                 <Dashboard 
                   key="self"
-                  transactions={selfServiceData.transactions} 
-                  metadata={selfServiceData.metadata} 
+                  transactions={compared.selfService.transactions} 
+                  metadata={compared.selfService.metadata} 
                   onReset={handleReset}
                   hideHeader={true} 
+                  businessDayStart={cutoffForUnit(cutoffs, compared.selfService.metadata.unitName)}
+                  onBusinessDayStartChange={(cutoff) => handleCutoffChange(compared.selfService!.metadata.unitName, cutoff)}
+                  previousTransactions={compared.previousSelfService}
+                  comparisonLabel={compared.label ?? undefined}
                 />
               )}
-              {activeTab === 'ATTENDANT' && attendantData && (
+              {activeTab === 'ATTENDANT' && compared.attendant && (
                 <Dashboard 
                   key="attendant"
-                  transactions={attendantData.transactions} 
-                  metadata={attendantData.metadata} 
+                  transactions={compared.attendant.transactions} 
+                  metadata={compared.attendant.metadata} 
                   onReset={handleReset}
                   hideHeader={true}
+                  businessDayStart={cutoffForUnit(cutoffs, compared.attendant.metadata.unitName)}
+                  onBusinessDayStartChange={(cutoff) => handleCutoffChange(compared.attendant!.metadata.unitName, cutoff)}
+                  previousTransactions={compared.previousAttendant}
+                  comparisonLabel={compared.label ?? undefined}
                 />
               )}
-              {activeTab === 'COMPARISON' && selfServiceData && attendantData && (
+              {activeTab === 'COMPARISON' && compared.selfService && compared.attendant && (
                 <ComparativeView 
-                  selfServiceTransactions={selfServiceData.transactions}
-                  attendantTransactions={attendantData.transactions}
+                  selfServiceTransactions={compared.selfService.transactions}
+                  attendantTransactions={compared.attendant.transactions}
+                  filter={comparisonFilter}
+                  onFilterChange={setComparisonFilter}
                 />
               )}
-              {activeTab === 'FINANCIAL' && (
+              {activeTab === 'FINANCIAL' && hasUnitData && (
                 <RevenueDashboard
-                  selfServiceTransactions={selfServiceData?.transactions || []}
-                  attendantTransactions={attendantData?.transactions || []}
+                  selfServiceTransactions={compared.selfService?.transactions || []}
+                  attendantTransactions={compared.attendant?.transactions || []}
+                  previousSelfServiceTransactions={compared.previousSelfService}
+                  previousAttendantTransactions={compared.previousAttendant}
+                  comparisonLabel={compared.label ?? undefined}
+                  projectionSample={projectionSample}
+                  revenueTarget={shownUnit ? targets[shownUnit] ?? null : null}
+                  onRevenueTargetChange={shownUnit ? (target) => handleTargetChange(shownUnit, target) : undefined}
+                  downtime={downtime?.events}
+                />
+              )}
+              {activeTab === 'UTILIZATION' && shownUnit && downtime && (
+                <UtilizationView
+                  transactions={unitTransactions}
+                  unitName={shownUnit}
+                  settings={capacityForUnit(capacities, shownUnit)}
+                  machineConfig={machineConfig}
+                  downtime={downtime}
+                  onSettingsChange={(settings) => handleCapacityChange(shownUnit, settings)}
+                />
+              )}
+              {activeTab === 'SESSIONS' && compared.selfService && (
+                <SessionsView
+                  transactions={compared.selfService.transactions}
+                  unitName={compared.selfService.metadata.unitName}
+                  settings={capacityForUnit(capacities, compared.selfService.metadata.unitName)}
+                  onSettingsChange={(settings) => handleCapacityChange(compared.selfService!.metadata.unitName, settings)}
                 />
               )}
             </div>
@@ -0,0 +1,237 @@
+import { openAsBlob, readdirSync, statSync, mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { ReportData } from '../types';
+import { loadFile } from '../services/fileLoader';
+import { EncodingChoice } from '../services/encoding';
+import { CsvFormat, countSkipped } from '../services/csvParser';
+import { getAdapter, listAdapters } from '../services/formatRegistry';
+import { applyMachineRegistry, EMPTY_MACHINE_CONFIG } from '../services/machineRegistry';
+import { computeDashboardStats } from '../services/dashboardStats';
+import { toCanonicalCsv } from '../services/adapters/canonicalAdapter';
+import { formatCurrency } from '../services/format';
+
+// Batch conversion of POS exports outside the browser. Build with
+// `npm run build:cli`, then: node dist-cli/lavepague.js [opções] <arquivos...>
+
+type OutputMode = 'json' | 'csv' | 'summary';
+
+interface CliOptions {
+  output: OutputMode;
+  outDir?: string;
+  encoding: EncodingChoice;
+  layout?: CsvFormat;
+  patterns: string[];
+}
+
+// Exit codes: 0 everything converted, 1 some file failed to read or parse, 2 bad invocation
+const EXIT_PARSE_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const ENCODINGS: EncodingChoice[] = ['auto', 'utf-8', 'windows-1252', 'utf-16le', 'utf-16be'];
+
+const USAGE = `Uso: lavepague [opções] <arquivos ou padrões...>
+
+Converte exportações dos caixas (CSV, XLSX, ODS) para o formato normalizado.
+
+Opções:
+  --output json|csv|summary  json: transações + metadados (padrão)
+                             csv: layout canônico, reimportável pelo app
+                             summary: indicadores do painel de uso
+  --out-dir <pasta>          Grava um arquivo por entrada em vez da saída padrão
+  --encoding <codificação>   ${ENCODINGS.join(', ')} (padrão: auto)
+  --layout <formato>         Força um formato: ${listAdapters().map(a => a.id).join(', ')}
+  --help                     Mostra esta ajuda
+
+Padrões aceitam *, ? e ** (ex.: "exportacoes/**/*.csv").`;
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = { output: 'json', encoding: 'auto', patterns: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new UsageError(`Falta o valor de ${arg}.`);
+      return next;
+    };
+
+    if (arg === '--output') {
+      const output = value();
+      if (output !== 'json' && output !== 'csv' && output !== 'summary') throw new UsageError(`Saída inválida: ${output}.`);
+      options.output = output;
+    } else if (arg === '--out-dir') {
+      options.outDir = value();
+    } else if (arg === '--encoding') {
+      const encoding = value() as EncodingChoice;
+      if (!ENCODINGS.includes(encoding)) throw new UsageError(`Codificação inválida: ${encoding}.`);
+      options.encoding = encoding;
+    } else if (arg === '--layout') {
+      const layout = value();
+      if (!getAdapter(layout)) throw new UsageError(`Formato desconhecido: ${layout}.`);
+      options.layout = layout;
+    } else if (arg.startsWith('--')) {
+      throw new UsageError(`Opção desconhecida: ${arg}.`);
+    } else {
+      options.patterns.push(arg);
+    }
+  }
+
+  if (options.patterns.length === 0) throw new UsageError('Nenhum arquivo informado.');
+  return options;
+};
+
+// --- Glob expansion (shells on Windows pass patterns through unexpanded) ---
+
+const hasWildcard = (segment: string): boolean => /[*?[]/.test(segment);
+
+const segmentPattern = (segment: string): RegExp =>
+  new RegExp('^' + segment.replace(/[.+^${}()|\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$');
+
+const isFile = (p: string): boolean => {
+  try {
+    return statSync(p).isFile();
+  } catch {
+    return false;
+  }
+};
+
+const expandSegments = (base: string, segments: string[]): string[] => {
+  if (segments.length === 0) return isFile(base) ? [base] : [];
+  const [segment, ...rest] = segments;
+
+  if (!hasWildcard(segment)) return expandSegments(path.join(base, segment), rest);
+
+  let entries;
+  try {
+    entries = readdirSync(base, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  if (segment === '**') {
+    // Zero or more directories
+    return [
+      ...expandSegments(base, rest),
+      ...entries.filter(e => e.isDirectory()).flatMap(e => expandSegments(path.join(base, e.name), segments))
+    ];
+  }
+
+  const pattern = segmentPattern(segment);
+  return entries
+    .filter(e => pattern.test(e.name))
+    .flatMap(e => expandSegments(path.join(base, e.name), rest));
+};
+
+const expandPattern = (pattern: string): string[] => {
+  if (!hasWildcard(pattern)) return [pattern];
+  const segments = pattern.split(/[\\/]/);
+  const base = path.isAbsolute(pattern) ? path.parse(pattern).root : '.';
+  const relative = path.isAbsolute(pattern) ? segments.slice(1) : segments;
+  return expandSegments(base, relative.filter(s => s !== '')).sort();
+};
+
+// --- Output ---
+
+const formatSummary = (fileName: string, format: CsvFormat, report: ReportData, skipped: number): string => {
+  const { metadata, transactions } = report;
+  const stats = computeDashboardStats(transactions);
+  const lines = [
+    `== ${fileName} ==`,
+    `Formato: ${getAdapter(format)?.label || format} · Relatório ${metadata.reportType === 'ATTENDANT' ? 'Atendente' : 'Self-Service'}`,
+    `Unidade: ${metadata.unitName}`,
+    `Período: ${metadata.period}`,
+    `Ciclos totais: ${stats.totalCycles}`,
+    `Lavagens: ${stats.washCount}${stats.comboCount > 0 ? ` (inclui ${stats.comboCount} combos)` : ''}`,
+    `Secagens: ${stats.dryCount}`,
+    `Média/dia: ${stats.insights.avgPerDay} (${stats.dailyData.length} dias)`,
+    `Pico de uso: ${stats.insights.peakHour}h`,
+    `FDS: ${stats.insights.fdsPercentage}% dos ciclos`,
+    `Máquina destaque: ${stats.insights.topMachine.name} (${stats.insights.topMachine.count} usos)`,
+    `Receita líquida: ${formatCurrency(stats.totalRevenue)}`
+  ];
+  if (stats.refunds.refundCount > 0 || stats.refunds.cancelledCount > 0) {
+    lines.push(`Estornos: ${stats.refunds.refundCount} (${formatCurrency(stats.refunds.refundValue)}) · Canceladas: ${stats.refunds.cancelledCount}`);
+  }
+  if (skipped > 0) lines.push(`Linhas ignoradas: ${skipped}`);
+  return lines.join('\n');
+};
+
+const outputExtension: Record<Exclude<OutputMode, 'summary'>, string> = { json: '.json', csv: '.csv' };
+
+const run = async (options: CliOptions): Promise<number> => {
+  const expanded = options.patterns.map(pattern => ({ pattern, matches: expandPattern(pattern) }));
+  const unmatched = expanded.filter(e => e.matches.length === 0);
+  unmatched.forEach(e => console.error(`${e.pattern}: nenhum arquivo corresponde ao padrão.`));
+  let failed = unmatched.length;
+
+  const files = Array.from(new Set(expanded.flatMap(e => e.matches)));
+
+  if (files.length > 1 && options.output === 'csv' && !options.outDir) {
+    throw new UsageError('Vários arquivos em CSV exigem --out-dir.');
+  }
+  if (options.outDir) mkdirSync(options.outDir, { recursive: true });
+
+  const reports: ReportData[] = [];
+  const summaries: string[] = [];
+
+  for (const filePath of files) {
+    const fileName = path.basename(filePath);
+    try {
+      const file = new File([await openAsBlob(filePath)], fileName);
+      const { result } = await loadFile({ file, encoding: options.encoding, options: { format: options.layout } });
+      const { diagnostics } = result;
+      diagnostics.warnings.forEach(w => console.error(`${fileName}: ${w}`));
+
+      if (diagnostics.format === CsvFormat.UNKNOWN || result.transactions.length === 0) {
+        console.error(`${fileName}: nenhuma transação reconhecida.`);
+        failed++;
+        continue;
+      }
+
+      const report: ReportData = {
+        metadata: result.metadata,
+        transactions: applyMachineRegistry(result.transactions, EMPTY_MACHINE_CONFIG)
+      };
+
+      if (options.output === 'summary') {
+        summaries.push(formatSummary(fileName, diagnostics.format, report, countSkipped(diagnostics)));
+      } else if (options.outDir) {
+        const target = path.join(options.outDir, path.parse(fileName).name + outputExtension[options.output]);
+        writeFileSync(target, options.output === 'json' ? JSON.stringify(report, null, 2) : toCanonicalCsv(report));
+        console.error(`${fileName} → ${target} (${report.transactions.length} transações)`);
+      } else {
+        reports.push(report);
+      }
+    } catch (err) {
+      console.error(`${fileName}: ${err instanceof Error ? err.message : String(err)}`);
+      failed++;
+    }
+  }
+
+  if (summaries.length > 0) process.stdout.write(summaries.join('\n\n') + '\n');
+  if (reports.length > 0) {
+    process.stdout.write(options.output === 'json'
+      ? JSON.stringify(reports.length === 1 && files.length === 1 ? reports[0] : reports, null, 2) + '\n'
+      : toCanonicalCsv(reports[0]));
+  }
+
+  return failed > 0 ? EXIT_PARSE_FAILURE : 0;
+};
+
+const main = async () => {
+  const argv = process.argv.slice(2);
+  if (argv.includes('--help') || argv.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+  try {
+    process.exitCode = await run(parseArgs(argv));
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = EXIT_USAGE;
+  }
+};
+
+main();
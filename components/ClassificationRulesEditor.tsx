@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { X, Tags, Save, Trash2, Plus, ArrowUp, ArrowDown, RotateCcw, AlertCircle } from 'lucide-react';
+import { CycleType } from '../types';
+import {
+  ClassificationRule, RuleMatch, RULE_MATCH_LABELS, CATEGORY_LABELS, CATEGORY_COLORS, CATEGORY_ORDER,
+  DEFAULT_RULES, compileRule, createClassifier
+} from '../services/classificationRules';
+
+interface ClassificationRulesEditorProps {
+  rules: ClassificationRule[];
+  sampleProducts: string[]; // Distinct product names from the loaded data, for a live preview
+  onSave: (rules: ClassificationRule[]) => void;
+  onClose: () => void;
+}
+
+const newRuleId = () => `rule-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const ClassificationRulesEditor: React.FC<ClassificationRulesEditorProps> = ({
+  rules: initialRules, sampleProducts, onSave, onClose
+}) => {
+  const [rules, setRules] = useState<ClassificationRule[]>(initialRules.map(r => ({ ...r })));
+  const [testName, setTestName] = useState('');
+
+  const invalidIds = useMemo(
+    () => new Set(rules.filter(r => compileRule(r) === null).map(r => r.id)),
+    [rules]
+  );
+  const classify = useMemo(() => createClassifier(rules), [rules]);
+
+  const updateRule = (index: number, patch: Partial<ClassificationRule>) => {
+    setRules(prev => prev.map((r, idx) => idx === index ? { ...r, ...patch } : r));
+  };
+
+  const moveRule = (index: number, delta: number) => {
+    setRules(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addRule = () => {
+    setRules(prev => [...prev, { id: newRuleId(), match: 'CONTAINS', pattern: '', category: CycleType.UNKNOWN }]);
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, idx) => idx !== index));
+  };
+
+  const CategoryBadge = ({ type }: { type: CycleType }) => (
+    <span
+      className="inline-block px-2 py-0.5 rounded text-xs font-bold text-white whitespace-nowrap"
+      style={{ backgroundColor: CATEGORY_COLORS[type] }}
+    >
+      {CATEGORY_LABELS[type]}
+    </span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col animate-in zoom-in-95">
+
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2 text-slate-800">
+            <Tags className="w-6 h-6 text-pink-600" />
+            <h2 className="text-xl font-bold">Regras de Classificação de Produtos</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            As regras são avaliadas de cima para baixo e a primeira que corresponder define a categoria.
+            A comparação ignora maiúsculas e acentos. Produtos sem regra correspondente ficam em "{CATEGORY_LABELS[CycleType.UNKNOWN]}".
+          </p>
+
+          <ul className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {rules.map((rule, idx) => (
+              <li key={rule.id} className="flex flex-col md:flex-row md:items-center gap-2 px-4 py-3 text-sm">
+                <span className="text-xs font-bold text-slate-400 w-6">{idx + 1}.</span>
+                <select
+                  value={rule.match}
+                  onChange={(e) => updateRule(idx, { match: e.target.value as RuleMatch })}
+                  className="border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700 bg-white"
+                >
+                  {(Object.keys(RULE_MATCH_LABELS) as RuleMatch[]).map(m => (
+                    <option key={m} value={m}>{RULE_MATCH_LABELS[m]}</option>
+                  ))}
+                </select>
+                <input
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(idx, { pattern: e.target.value })}
+                  placeholder="Texto do produto"
+                  className={`flex-1 border rounded-lg px-3 py-1.5 font-mono ${invalidIds.has(rule.id) ? 'border-red-300 bg-red-50' : 'border-slate-200'}`}
+                />
+                <span className="text-slate-400">→</span>
+                <select
+                  value={rule.category}
+                  onChange={(e) => updateRule(idx, { category: e.target.value as CycleType })}
+                  className="border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700 bg-white"
+                >
+                  {CATEGORY_ORDER.map(c => (
+                    <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => moveRule(idx, -1)}
+                    disabled={idx === 0}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveRule(idx, 1)}
+                    disabled={idx === rules.length - 1}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => removeRule(idx)}
+                    className="p-1.5 rounded-md text-red-500 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+            {rules.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-slate-400">Nenhuma regra — todos os produtos ficarão em "{CATEGORY_LABELS[CycleType.UNKNOWN]}".</li>
+            )}
+          </ul>
+
+          {invalidIds.size > 0 && (
+            <div className="flex items-center gap-2 p-3 text-sm text-red-700 bg-red-50 rounded-lg border border-red-200">
+              <AlertCircle className="w-4 h-4" />
+              Regras vazias ou com expressão regular inválida são ignoradas.
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={addRule}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-pink-600 bg-pink-50 rounded-lg hover:bg-pink-100 transition-colors"
+            >
+              <Plus className="w-4 h-4" /> Nova regra
+            </button>
+            <button
+              onClick={() => setRules(DEFAULT_RULES.map(r => ({ ...r })))}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" /> Restaurar padrão
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Testar</h3>
+            <div className="flex items-center gap-3">
+              <input
+                value={testName}
+                onChange={(e) => setTestName(e.target.value)}
+                placeholder="Ex.: LAVADORA 01 10KG"
+                className="flex-1 border border-slate-200 rounded-lg px-3 py-1.5 text-sm"
+              />
+              {testName.trim() && <CategoryBadge type={classify(testName)} />}
+            </div>
+          </div>
+
+          {sampleProducts.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Produtos carregados</h3>
+              <ul className="border border-slate-100 rounded-lg divide-y divide-slate-50 text-sm max-h-60 overflow-y-auto">
+                {sampleProducts.map(name => (
+                  <li key={name} className="flex items-center justify-between gap-3 px-4 py-2">
+                    <span className="text-slate-700 truncate">{name}</span>
+                    <CategoryBadge type={classify(name)} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-slate-600 font-medium hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(rules)}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-pink-600 text-white font-bold rounded-lg hover:bg-pink-700 transition-colors shadow-md"
+          >
+            <Save className="w-4 h-4" /> Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
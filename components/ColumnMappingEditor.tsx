@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { X, Columns, Save, Trash2 } from 'lucide-react';
+import { getAdapter } from '../services/formatRegistry';
+import {
+  ColumnIndexMap, ColumnMappingProfile, MappingField, MAPPING_FIELDS, MAPPING_FIELD_LABELS
+} from '../services/columnMapping';
+
+interface ColumnMappingEditorProps {
+  fileName: string;
+  headerColumns: string[];
+  previewRows: string[][];
+  initialColumns: ColumnIndexMap;
+  profiles: ColumnMappingProfile[];
+  onApply: (columns: ColumnIndexMap, profileName: string | null) => void;
+  onDeleteProfile: (id: string) => void;
+  onClose: () => void;
+}
+
+const FIELD_COLORS: Record<MappingField, string> = {
+  date: 'bg-blue-100 text-blue-700',
+  time: 'bg-teal-100 text-teal-700',
+  product: 'bg-pink-100 text-pink-700',
+  amount: 'bg-emerald-100 text-emerald-700',
+  payment: 'bg-amber-100 text-amber-700'
+};
+
+export const ColumnMappingEditor: React.FC<ColumnMappingEditorProps> = ({
+  fileName, headerColumns, previewRows, initialColumns, profiles, onApply, onDeleteProfile, onClose
+}) => {
+  const [columns, setColumns] = useState<ColumnIndexMap>({ ...initialColumns });
+  const [saveAsProfile, setSaveAsProfile] = useState(false);
+  const [profileName, setProfileName] = useState(fileName.replace(/\.[^.]+$/, ''));
+
+  const columnCount = Math.max(headerColumns.length, ...previewRows.map(r => r.length), 0);
+  const columnIndexes = Array.from({ length: columnCount }, (_, i) => i);
+
+  const fieldsAt = (index: number) => MAPPING_FIELDS.filter(f => columns[f] === index);
+
+  const handleApply = () => {
+    const name = saveAsProfile ? profileName.trim() : '';
+    onApply(columns, name || null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col animate-in zoom-in-95">
+
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2 text-slate-800 min-w-0">
+            <Columns className="w-6 h-6 text-blue-600 shrink-0" />
+            <h2 className="text-xl font-bold truncate">Mapeamento de Colunas — {fileName}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {MAPPING_FIELDS.map(field => (
+              <label key={field} className="text-sm space-y-1">
+                <span className={`inline-block px-2 py-0.5 rounded text-xs font-bold ${FIELD_COLORS[field]}`}>
+                  {MAPPING_FIELD_LABELS[field]}
+                </span>
+                <select
+                  value={columns[field]}
+                  onChange={(e) => setColumns(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+                  className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700 bg-white"
+                >
+                  {columnIndexes.map(idx => (
+                    <option key={idx} value={idx}>
+                      {idx + 1}. {headerColumns[idx] || `Coluna ${idx + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-200">
+                  {columnIndexes.map(idx => (
+                    <th key={idx} className="px-3 py-2 text-left font-semibold text-slate-600 whitespace-nowrap align-top">
+                      <div>{headerColumns[idx] || `Coluna ${idx + 1}`}</div>
+                      <div className="flex gap-1 mt-1">
+                        {fieldsAt(idx).map(f => (
+                          <span key={f} className={`px-1.5 py-0.5 rounded font-bold ${FIELD_COLORS[f]}`}>
+                            {MAPPING_FIELD_LABELS[f]}
+                          </span>
+                        ))}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {previewRows.map((row, rIdx) => (
+                  <tr key={rIdx} className="border-b border-slate-50 last:border-0">
+                    {columnIndexes.map(idx => (
+                      <td
+                        key={idx}
+                        className={`px-3 py-1.5 whitespace-nowrap ${fieldsAt(idx).length > 0 ? 'bg-blue-50/50 text-slate-900' : 'text-slate-500'}`}
+                      >
+                        {row[idx] ?? ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center gap-3 text-sm">
+            <label className="flex items-center gap-2 text-slate-700">
+              <input type="checkbox" checked={saveAsProfile} onChange={(e) => setSaveAsProfile(e.target.checked)} />
+              Salvar como perfil para arquivos com este cabeçalho
+            </label>
+            {saveAsProfile && (
+              <input
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Nome do perfil"
+                className="flex-1 border border-slate-200 rounded-lg px-3 py-1.5"
+              />
+            )}
+          </div>
+
+          {profiles.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Perfis salvos</h3>
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg text-sm">
+                {profiles.map(p => (
+                  <li key={p.id} className="flex items-center justify-between px-4 py-2">
+                    <span className="text-slate-700">
+                      {p.name}
+                      <span className="text-xs text-slate-400 ml-2">
+                        {getAdapter(p.format)?.label || p.format}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => onDeleteProfile(p.id)}
+                      className="text-red-500 hover:text-red-700 flex items-center gap-1 px-2 py-1 rounded-md hover:bg-red-50 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" /> Excluir
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-slate-600 font-medium hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={saveAsProfile && !profileName.trim()}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 transition-colors shadow-md disabled:bg-slate-300"
+          >
+            <Save className="w-4 h-4" /> Aplicar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,12 +2,17 @@ import React, { useMemo, useState } from 'react';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend 
 } from 'recharts';
-import { Transaction, CycleType, PrintProps } from '../types';
+import { Transaction, CycleType, PrintProps, ComparisonFilter } from '../types';
+import { CATEGORY_COLORS, countsAsDry, countsAsWash } from '../services/classificationRules';
+import { isSale } from '../services/transactionKind';
 import { GitCompare, CalendarDays, Clock, Filter, Droplets, Sun } from 'lucide-react';
+import { WeekHourHeatmap } from './WeekHourHeatmap';
 
 interface ComparativeViewProps extends PrintProps {
   selfServiceTransactions: Transaction[];
   attendantTransactions: Transaction[];
+  filter?: ComparisonFilter; // Controlled by the parent when given
+  onFilterChange?: (filter: ComparisonFilter) => void;
 }
 
 const DAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
@@ -15,9 +20,13 @@ const DAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
 export const ComparativeView: React.FC<ComparativeViewProps> = ({ 
   selfServiceTransactions, 
   attendantTransactions,
-  printMode = false
+  printMode = false,
+  filter,
+  onFilterChange
 }) => {
-  const [activeFilter, setActiveFilter] = useState<'BOTH' | 'SELF' | 'ATTENDANT'>('BOTH');
+  const [ownFilter, setOwnFilter] = useState<ComparisonFilter>('BOTH');
+  const activeFilter = filter ?? ownFilter;
+  const setActiveFilter = onFilterChange ?? setOwnFilter;
 
   // --- 1. Existing Comparison Logic (Self vs Attendant) ---
   const { hourlyData, weeklyData } = useMemo(() => {
@@ -35,21 +44,21 @@ export const ComparativeView: React.FC<ComparativeViewProps> = ({
       attendant: 0,
     }));
 
-    // Populate Self Service
-    selfServiceTransactions.forEach(t => {
+    // Populate Self Service (refunds and cancellations are not cycles)
+    selfServiceTransactions.filter(isSale).forEach(t => {
       const h = t.date.getHours();
       if (h >= 0 && h < 24) hourly[h].selfService++;
       
-      const d = t.dayOfWeek;
+      const d = t.businessDayOfWeek;
       if (d >= 0 && d < 7) weekly[d].selfService++;
     });
 
     // Populate Attendant
-    attendantTransactions.forEach(t => {
+    attendantTransactions.filter(isSale).forEach(t => {
       const h = t.date.getHours();
       if (h >= 0 && h < 24) hourly[h].attendant++;
 
-      const d = t.dayOfWeek;
+      const d = t.businessDayOfWeek;
       if (d >= 0 && d < 7) weekly[d].attendant++;
     });
 
@@ -71,32 +80,36 @@ export const ComparativeView: React.FC<ComparativeViewProps> = ({
     }
 
     // Initialize buckets
-    const hourly = new Array(24).fill(0).map((_, i) => ({ label: `${i}h`, wash: 0, dry: 0 }));
-    const weekly = new Array(7).fill(0).map((_, i) => ({ label: DAY_LABELS[i], wash: 0, dry: 0 }));
+    const hourly = new Array(24).fill(0).map((_, i) => ({ label: `${i}h`, wash: 0, dry: 0, other: 0 }));
+    const weekly = new Array(7).fill(0).map((_, i) => ({ label: DAY_LABELS[i], wash: 0, dry: 0, other: 0 }));
+    let otherTotal = 0;
 
     // Aggregate
-    sourceTransactions.forEach(t => {
-        const isWash = t.type === CycleType.WASH;
-        const isDry = t.type === CycleType.DRY;
-        
-        if (!isWash && !isDry) return; // Skip unknown
+    sourceTransactions.filter(isSale).forEach(t => {
+        // Combos count on both lines; supplies, services and unclassified go to "Outros"
+        const isWash = countsAsWash(t.type);
+        const isDry = countsAsDry(t.type);
+        const isOther = !isWash && !isDry;
+        if (isOther) otherTotal++;
 
         // Hourly
         const h = t.date.getHours();
         if (h >= 0 && h < 24) {
             if (isWash) hourly[h].wash++;
-            else hourly[h].dry++;
+            if (isDry) hourly[h].dry++;
+            if (isOther) hourly[h].other++;
         }
 
         // Weekly
-        const d = t.dayOfWeek;
+        const d = t.businessDayOfWeek;
         if (d >= 0 && d < 7) {
             if (isWash) weekly[d].wash++;
-            else weekly[d].dry++;
+            if (isDry) weekly[d].dry++;
+            if (isOther) weekly[d].other++;
         }
     });
 
-    return { hourly, weekly };
+    return { hourly, weekly, hasOther: otherTotal > 0 };
   }, [activeFilter, selfServiceTransactions, attendantTransactions]);
 
   const animationProps = { isAnimationActive: !printMode };
@@ -205,6 +218,15 @@ export const ComparativeView: React.FC<ComparativeViewProps> = ({
         </div>
       </div>
 
+      {/* Weekday x Hour Heatmap */}
+      <div className={printMode ? 'mb-8' : ''}>
+        <WeekHourHeatmap
+          selfServiceTransactions={selfServiceTransactions}
+          attendantTransactions={attendantTransactions}
+          printMode={printMode}
+        />
+      </div>
+
       <div className={`border-t border-slate-200 my-8 ${printMode ? 'hidden' : ''}`}></div>
 
       {/* --- SECTION 2: WASH VS DRY DETAILED ANALYSIS --- */}
@@ -269,6 +291,9 @@ export const ComparativeView: React.FC<ComparativeViewProps> = ({
                             <Line type="monotone" dataKey="wash" name="Lavar" stroke="#3b82f6" strokeWidth={2} dot={false} activeDot={{r: 6}} {...animationProps} />
                             {/* Orange for Heat (Dry) */}
                             <Line type="monotone" dataKey="dry" name="Secar" stroke="#f97316" strokeWidth={2} dot={false} activeDot={{r: 6}} {...animationProps} />
+                            {washDryData.hasOther && (
+                                <Line type="monotone" dataKey="other" name="Outros" stroke={CATEGORY_COLORS[CycleType.UNKNOWN]} strokeWidth={2} strokeDasharray="4 4" dot={false} {...animationProps} />
+                            )}
                         </LineChart>
                     </ResponsiveContainer>
                 </div>
@@ -293,6 +318,9 @@ export const ComparativeView: React.FC<ComparativeViewProps> = ({
                             <Line type="monotone" dataKey="wash" name="Lavar" stroke="#3b82f6" strokeWidth={2} dot={{r:4}} {...animationProps} />
                             {/* Orange for Heat (Dry) */}
                             <Line type="monotone" dataKey="dry" name="Secar" stroke="#f97316" strokeWidth={2} dot={{r:4}} {...animationProps} />
+                            {washDryData.hasOther && (
+                                <Line type="monotone" dataKey="other" name="Outros" stroke={CATEGORY_COLORS[CycleType.UNKNOWN]} strokeWidth={2} strokeDasharray="4 4" dot={{r:3}} {...animationProps} />
+                            )}
                         </LineChart>
                     </ResponsiveContainer>
                 </div>
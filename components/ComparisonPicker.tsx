@@ -0,0 +1,85 @@
+import React, { useRef } from 'react';
+import { GitCompareArrows, Upload, X } from 'lucide-react';
+import { PERIOD_SPLIT_LABELS, PeriodComparison, PeriodSplit } from '../services/periodComparison';
+import { SPREADSHEET_EXTENSIONS } from '../services/spreadsheetFiles';
+
+interface ComparisonPickerProps {
+  comparison: PeriodComparison | null;
+  label: string | null; // Comparison period in effect
+  unavailable: boolean;
+  onChange: (comparison: PeriodComparison | null) => void;
+  onLoadFiles: (files: File[]) => void; // Exports of another period, parsed with the current settings
+}
+
+const FILE_OPTION = 'FILE';
+const ACCEPTED_EXTENSIONS = ['.csv', ...SPREADSHEET_EXTENSIONS].join(',');
+
+export const ComparisonPicker: React.FC<ComparisonPickerProps> = ({ comparison, label, unavailable, onChange, onLoadFiles }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const value = !comparison ? '' : comparison.kind === 'FILE' ? FILE_OPTION : comparison.split;
+
+  const handleSelect = (next: string) => {
+    if (next === FILE_OPTION) {
+      inputRef.current?.click();
+    } else {
+      onChange(next ? { kind: 'SPLIT', split: next as PeriodSplit } : null);
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    if (files && files.length > 0) onLoadFiles(Array.from(files));
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 pt-4 no-print">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-500">
+        <GitCompareArrows className="w-4 h-4 text-slate-400" />
+        <label htmlFor="comparison-select">Comparar com:</label>
+        <select
+          id="comparison-select"
+          value={value}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="border border-slate-200 rounded-lg px-2 py-1 text-slate-700 bg-white"
+        >
+          <option value="">Sem comparação</option>
+          {(Object.keys(PERIOD_SPLIT_LABELS) as PeriodSplit[]).map(split => (
+            <option key={split} value={split}>{PERIOD_SPLIT_LABELS[split]}</option>
+          ))}
+          <option value={FILE_OPTION}>Arquivo de outro período…</option>
+        </select>
+        <input
+          type="file"
+          ref={inputRef}
+          onChange={(e) => handleFiles(e.target.files)}
+          className="hidden"
+          accept={ACCEPTED_EXTENSIONS}
+          multiple
+        />
+        {comparison?.kind === 'FILE' && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="flex items-center gap-1 text-slate-500 hover:text-pink-600 transition-colors"
+          >
+            <Upload className="w-4 h-4" /> Trocar arquivo
+          </button>
+        )}
+        {unavailable ? (
+          <span className="text-amber-600">Os dados carregados não cobrem o período anterior inteiro para esta comparação.</span>
+        ) : label && (
+          <span className="text-slate-400">Período de comparação: {label}</span>
+        )}
+        {comparison && (
+          <button
+            onClick={() => onChange(null)}
+            className="p-1 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100"
+            title="Remover comparação"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
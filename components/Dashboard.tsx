@@ -1,26 +1,47 @@
 import React, { useMemo } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  PieChart, Pie, Cell 
+  PieChart, Pie, Cell, Legend
 } from 'recharts';
-import { Transaction, CycleType, DailyMetric, HourlyMetric, DashboardMetadata, PrintProps } from '../types';
-import { WashingMachine, Wind, Calendar, Activity, ArrowLeft, TrendingUp } from 'lucide-react';
+import { Transaction, CycleType, DashboardMetadata, PrintProps } from '../types';
+import { WashingMachine, Wind, Calendar, Activity, ArrowLeft, TrendingUp, TrendingDown, MoonStar, Undo2 } from 'lucide-react';
+import { CATEGORY_COLORS } from '../services/classificationRules';
+import { computeDashboardStats } from '../services/dashboardStats';
+import { Anomaly, detectAnomalies } from '../services/anomalies';
+import { DEFAULT_CUTOFF } from '../services/businessDay';
+import { KpiDelta, kpiDelta } from '../services/periodComparison';
+import { DeltaBadge } from './DeltaBadge';
+import { WeekHourHeatmap } from './WeekHourHeatmap';
 
 interface DashboardProps extends PrintProps {
   transactions: Transaction[];
   metadata: DashboardMetadata;
   onReset?: () => void;
   hideHeader?: boolean;
+  businessDayStart?: string; // "HH:MM" cutoff already applied to the transactions
+  onBusinessDayStartChange?: (cutoff: string) => void;
+  previousTransactions?: Transaction[] | null; // Comparison period, same report type
+  comparisonLabel?: string;
 }
 
-const DAY_NAMES = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+// Findings shown in the insights card; the rest are summarized as a count
+const MAX_ANOMALIES = 6;
+
+const anomalyIcon = (anomaly: Anomaly) =>
+  anomaly.metric === 'REFUNDS' ? <Undo2 className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+    : anomaly.direction === 'HIGH' ? <TrendingUp className="w-4 h-4 text-emerald-500 shrink-0 mt-0.5" />
+    : <TrendingDown className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />;
 
 export const Dashboard: React.FC<DashboardProps> = ({ 
   transactions, 
   metadata, 
   onReset, 
   hideHeader = false,
-  printMode = false
+  printMode = false,
+  businessDayStart = DEFAULT_CUTOFF,
+  onBusinessDayStartChange,
+  previousTransactions = null,
+  comparisonLabel
 }) => {
 
   const isAttendant = metadata.reportType === 'ATTENDANT';
@@ -36,102 +57,22 @@ export const Dashboard: React.FC<DashboardProps> = ({
   };
 
   // --- Metrics Calculation ---
-  const stats = useMemo(() => {
-    let totalRev = 0;
-    let washCount = 0;
-    let dryCount = 0;
-    
-    // Hourly & Daily Maps
-    const hourlyMap = new Array(24).fill(0).map((_, i) => ({ hour: i, count: 0, revenue: 0 }));
-    const dayOfWeekMap = new Array(7).fill(0).map((_, i) => ({ dayIndex: i, name: DAY_NAMES[i], count: 0 }));
-    const machineMap = new Map<string, number>();
-    const uniqueDays = new Set<string>();
-
-    const dailyMap = new Map<string, DailyMetric>();
-
-    transactions.forEach(t => {
-      totalRev += t.amount;
-      uniqueDays.add(t.rawDate);
-
-      if (t.type === CycleType.WASH) washCount++;
-      if (t.type === CycleType.DRY) dryCount++;
-
-      // Machine Usage
-      machineMap.set(t.machine, (machineMap.get(t.machine) || 0) + 1);
-
-      // Hourly
-      const hour = t.date.getHours();
-      if (hour >= 0 && hour < 24) {
-        hourlyMap[hour].count++;
-      }
-
-      // Day of Week
-      const dayIndex = t.dayOfWeek;
-      dayOfWeekMap[dayIndex].count++;
-
-      // Daily Aggregation for Chart
-      if (!dailyMap.has(t.rawDate)) {
-        dailyMap.set(t.rawDate, { 
-          date: t.rawDate, 
-          revenue: 0, 
-          washCount: 0, 
-          dryCount: 0, 
-          totalCount: 0,
-          dayOfWeek: t.dayOfWeek
-        });
-      }
-      const day = dailyMap.get(t.rawDate)!;
-      day.totalCount++;
-      if (t.type === CycleType.WASH) day.washCount++;
-      if (t.type === CycleType.DRY) day.dryCount++;
-    });
-
-    // Sort Daily data by Date object
-    const dailyData = Array.from(dailyMap.values()).sort((a, b) => {
-        const [dA, mA, yA] = a.date.split('/').map(Number);
-        const [dB, mB, yB] = b.date.split('/').map(Number);
-        return new Date(yA, mA - 1, dA).getTime() - new Date(yB, mB - 1, dB).getTime();
-    });
-
-    // Ranking Data
-    const rankingData = Array.from(machineMap.entries())
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count);
-
-    // Insights Generation
-    const peakHour = hourlyMap.reduce((max, curr) => curr.count > max.count ? curr : max, { hour: 0, count: 0 });
-    
-    // Weekend vs Weekday
-    const weekendCount = dayOfWeekMap[0].count + dayOfWeekMap[6].count;
-    const fdsPercentage = transactions.length > 0 ? ((weekendCount / transactions.length) * 100).toFixed(1) : '0.0';
+  const stats = useMemo(() => computeDashboardStats(transactions), [transactions]);
+  const previous = useMemo(
+    () => previousTransactions ? computeDashboardStats(previousTransactions) : null,
+    [previousTransactions]
+  );
+  const deltaOf = (pick: (s: typeof stats) => number) => previous ? kpiDelta(pick(stats), pick(previous)) : undefined;
 
-    const topMachine = rankingData.length > 0 ? rankingData[0] : { name: 'N/A', count: 0 };
-    
-    const daysDivisor = uniqueDays.size || 1;
-    const avgPerDay = (transactions.length / daysDivisor).toFixed(1);
+  // Comparison series overlaid on the distribution charts
+  const hourlyChart = stats.hourlyData.map((h, i) => ({ ...h, previous: previous?.hourlyData[i].count }));
+  const weekdayChart = stats.dayOfWeekData.map((d, i) => ({ ...d, previous: previous?.dayOfWeekData[i].count }));
 
-    return {
-      totalRevenue: totalRev,
-      totalCycles: transactions.length,
-      washCount,
-      dryCount,
-      dailyData,
-      hourlyData: hourlyMap,
-      dayOfWeekData: dayOfWeekMap,
-      rankingData,
-      insights: {
-        peakHour: peakHour.hour,
-        fdsPercentage,
-        topMachine,
-        avgPerDay
-      }
-    };
-  }, [transactions]);
+  // Wash and dry keep the report theme colors; the other categories use their own
+  const categoryColor = (type: CycleType) =>
+    type === CycleType.WASH ? COLORS.wash : type === CycleType.DRY ? COLORS.dry : CATEGORY_COLORS[type];
 
-  const pieData = [
-    { name: 'Lavar', value: stats.washCount },
-    { name: 'Secar', value: stats.dryCount },
-  ];
+  const anomalies = useMemo(() => detectAnomalies(transactions), [transactions]);
 
   // Printing: Disable animations
   const animationProps = { isAnimationActive: !printMode };
@@ -163,6 +104,23 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 <div className="text-sm text-slate-600 space-y-1">
                     <p><span className="font-semibold text-slate-900">Unidade:</span> {metadata.unitName}</p>
                     <p><span className="font-semibold text-slate-900">Período:</span> {metadata.period}</p>
+                    {previous && comparisonLabel && (
+                        <p><span className="font-semibold text-slate-900">Comparado com:</span> {comparisonLabel}</p>
+                    )}
+                    {onBusinessDayStartChange && !printMode ? (
+                        <label className="flex items-center gap-2 no-print">
+                            <MoonStar className="w-4 h-4 text-slate-400" />
+                            <span className="font-semibold text-slate-900">Dia operacional começa às</span>
+                            <input
+                                type="time"
+                                value={businessDayStart}
+                                onChange={(e) => onBusinessDayStartChange(e.target.value || DEFAULT_CUTOFF)}
+                                className="border border-slate-200 rounded-md px-2 py-0.5 text-slate-700"
+                            />
+                        </label>
+                    ) : businessDayStart !== DEFAULT_CUTOFF && (
+                        <p><span className="font-semibold text-slate-900">Dia operacional:</span> a partir das {businessDayStart}</p>
+                    )}
                 </div>
             </div>
             <div className="text-right hidden md:block">
@@ -187,20 +145,23 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 icon={<TrendingUp className={`w-5 h-5 ${COLORS.primary}`} />} 
                 subText=""
                 bgColor={COLORS.lightBg}
+                delta={deltaOf(s => s.totalCycles)}
             />
              <KpiCard 
                 title="LAVAGENS" 
                 value={stats.washCount} 
                 icon={<WashingMachine className={`w-5 h-5 ${COLORS.primary}`} />} 
-                subText=""
+                subText={stats.comboCount > 0 ? `Inclui ${stats.comboCount} combos` : ''}
                 bgColor={COLORS.lightBg}
+                delta={deltaOf(s => s.washCount)}
             />
              <KpiCard 
                 title="SECAGENS" 
                 value={stats.dryCount} 
                 icon={<Wind className={`w-5 h-5 ${COLORS.primary}`} />} 
-                subText=""
+                subText={stats.comboCount > 0 ? `Inclui ${stats.comboCount} combos` : ''}
                 bgColor={COLORS.lightBg}
+                delta={deltaOf(s => s.dryCount)}
             />
              <KpiCard 
                 title="MÉDIA/DIA" 
@@ -208,6 +169,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 icon={<Calendar className={`w-5 h-5 ${COLORS.primary}`} />} 
                 subText={`Ciclos totais / ${stats.dailyData.length} dias`}
                 bgColor={COLORS.lightBg}
+                delta={deltaOf(s => parseFloat(s.insights.avgPerDay))}
             />
         </div>
 
@@ -217,13 +179,27 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 <div className={`w-3 h-3 ${COLORS.bg} rounded-sm`}></div>
                 Insights Principais
             </h3>
-            <ul className="space-y-2 text-slate-600 text-sm list-disc pl-5">
-                <li>Pico de uso às {stats.insights.peakHour}h.</li>
-                <li>FDS responde por {stats.insights.fdsPercentage}% dos ciclos.</li>
-                <li>Distribuição: {stats.washCount} lavagens vs {stats.dryCount} secagens.</li>
-                <li>Máquina destaque: {stats.insights.topMachine.name} ({stats.insights.topMachine.count} usos).</li>
-                <li>Média de {stats.insights.avgPerDay} ciclos/dia útil.</li>
-            </ul>
+            {anomalies.length === 0 ? (
+                <p className="text-slate-600 text-sm">
+                    Nenhum dia ou máquina fora do padrão: faturamento, ciclos, ticket e estornos ficaram dentro do normal de cada dia da semana.
+                </p>
+            ) : (
+                <>
+                    <ul className="space-y-2 text-slate-600 text-sm">
+                        {anomalies.slice(0, MAX_ANOMALIES).map(a => (
+                            <li key={`${a.metric}-${a.machineId}-${a.businessDate}`} className="flex items-start gap-2">
+                                {anomalyIcon(a)}
+                                <span>{a.explanation}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    {anomalies.length > MAX_ANOMALIES && (
+                        <p className="text-xs text-slate-400 mt-3">
+                            E mais {anomalies.length - MAX_ANOMALIES} {anomalies.length - MAX_ANOMALIES === 1 ? 'ocorrência menos relevante' : 'ocorrências menos relevantes'}.
+                        </p>
+                    )}
+                </>
+            )}
         </div>
 
         {/* Ranking Table */}
@@ -310,7 +286,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 <h3 className="text-sm font-medium text-slate-500 mb-4">Distribuição por Hora</h3>
                 <div className="h-[200px]">
                     <ResponsiveContainer width="100%" height="100%">
-                        <BarChart data={stats.hourlyData}>
+                        <BarChart data={hourlyChart}>
                             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
                             <XAxis 
                                 dataKey="hour" 
@@ -324,7 +300,9 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                 contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
                                 cursor={{fill: isAttendant ? '#f3e8ff' : '#fce7f3'}}
                             />}
-                            <Bar dataKey="count" fill={COLORS.wash} radius={[2, 2, 0, 0]} {...animationProps} />
+                            {previous && <Legend wrapperStyle={{ fontSize: 11 }} />}
+                            <Bar dataKey="count" name="Ciclos" fill={COLORS.wash} radius={[2, 2, 0, 0]} {...animationProps} />
+                            {previous && <Bar dataKey="previous" name="Comparação" fill="#cbd5e1" radius={[2, 2, 0, 0]} {...animationProps} />}
                         </BarChart>
                     </ResponsiveContainer>
                 </div>
@@ -335,7 +313,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 <h3 className="text-sm font-medium text-slate-500 mb-4">Distribuição por Dia</h3>
                 <div className="h-[200px]">
                     <ResponsiveContainer width="100%" height="100%">
-                        <BarChart data={stats.dayOfWeekData}>
+                        <BarChart data={weekdayChart}>
                             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
                             <XAxis 
                                 dataKey="name" 
@@ -349,21 +327,32 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                 contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
                                 cursor={{fill: isAttendant ? '#dbeafe' : '#ccfbf1'}}
                             />}
-                            <Bar dataKey="count" fill={COLORS.dry} radius={[2, 2, 0, 0]} {...animationProps} />
+                            {previous && <Legend wrapperStyle={{ fontSize: 11 }} />}
+                            <Bar dataKey="count" name="Ciclos" fill={COLORS.dry} radius={[2, 2, 0, 0]} {...animationProps} />
+                            {previous && <Bar dataKey="previous" name="Comparação" fill="#cbd5e1" radius={[2, 2, 0, 0]} {...animationProps} />}
                         </BarChart>
                     </ResponsiveContainer>
                 </div>
             </div>
         </div>
 
+        {/* Weekday x Hour Heatmap */}
+        <div className={printMode ? 'mb-6' : ''}>
+            <WeekHourHeatmap
+                selfServiceTransactions={isAttendant ? [] : transactions}
+                attendantTransactions={isAttendant ? transactions : []}
+                printMode={printMode}
+            />
+        </div>
+
         {/* Pie Chart */}
         <div className={`bg-white p-6 rounded-xl border border-slate-100 flex flex-col items-center ${printMode ? 'break-inside-avoid' : ''}`}>
-            <h3 className="text-slate-600 font-bold self-start mb-4">Lavar vs Secar</h3>
+            <h3 className="text-slate-600 font-bold self-start mb-4">Mix de Categorias</h3>
             <div className="w-full max-w-xs h-[250px] relative">
                  <ResponsiveContainer width="100%" height="100%">
                     <PieChart>
                         <Pie
-                            data={pieData}
+                            data={stats.categoryData}
                             cx="50%"
                             cy="50%"
                             innerRadius={0}
@@ -373,21 +362,22 @@ export const Dashboard: React.FC<DashboardProps> = ({
                             endAngle={-270}
                             {...animationProps}
                         >
-                            <Cell key="wash" fill={COLORS.wash} />
-                            <Cell key="dry" fill={COLORS.dry} />
+                            {stats.categoryData.map(c => (
+                                <Cell key={c.type} fill={categoryColor(c.type)} />
+                            ))}
                         </Pie>
                     </PieChart>
                  </ResponsiveContainer>
             </div>
-            <div className="flex gap-8 mt-4">
-                <div className="flex items-center gap-2">
-                    <div className={`w-3 h-3 ${COLORS.bg}`}></div>
-                    <span className={`${COLORS.primary} font-medium`}>Lavar: {stats.totalCycles > 0 ? ((stats.washCount / stats.totalCycles) * 100).toFixed(0) : 0}%</span>
-                </div>
-                <div className="flex items-center gap-2">
-                    <div className={`w-3 h-3`} style={{backgroundColor: COLORS.dry}}></div>
-                    <span className={`font-medium`} style={{color: COLORS.dry}}>Secar: {stats.totalCycles > 0 ? ((stats.dryCount / stats.totalCycles) * 100).toFixed(0) : 0}%</span>
-                </div>
+            <div className="flex flex-wrap justify-center gap-x-8 gap-y-2 mt-4">
+                {stats.categoryData.map(c => (
+                    <div key={c.type} className="flex items-center gap-2">
+                        <div className="w-3 h-3" style={{backgroundColor: categoryColor(c.type)}}></div>
+                        <span className="font-medium" style={{color: categoryColor(c.type)}}>
+                            {c.name}: {stats.totalCycles > 0 ? ((c.value / stats.totalCycles) * 100).toFixed(0) : 0}%
+                        </span>
+                    </div>
+                ))}
             </div>
         </div>
 
@@ -402,10 +392,10 @@ export const Dashboard: React.FC<DashboardProps> = ({
   );
 };
 
-const KpiCard: React.FC<{title: string; value: string | number; icon: React.ReactNode; subText: string; bgColor: string}> = ({
-  title, value, icon, subText, bgColor
+const KpiCard: React.FC<{title: string; value: string | number; icon: React.ReactNode; subText: string; bgColor: string; delta?: KpiDelta}> = ({
+  title, value, icon, subText, bgColor, delta
 }) => (
-  <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-5 flex flex-col justify-between h-32 relative overflow-hidden">
+  <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-5 flex flex-col justify-between min-h-[8rem] relative overflow-hidden">
     <div className="flex justify-between items-start z-10">
         <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{title}</span>
         <div className={`p-1.5 rounded-md ${bgColor}`}>
@@ -415,6 +405,7 @@ const KpiCard: React.FC<{title: string; value: string | number; icon: React.Reac
     <div className="z-10">
         <div className="text-3xl font-extrabold text-slate-800">{value}</div>
         {subText && <div className="text-xs text-slate-400 mt-1">{subText}</div>}
+        {delta && <div className="mt-1"><DeltaBadge delta={delta} /></div>}
     </div>
   </div>
 );
\ No newline at end of file
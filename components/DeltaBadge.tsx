@@ -0,0 +1,27 @@
+import React from 'react';
+import { ArrowUpRight, ArrowDownRight, Minus } from 'lucide-react';
+import { KpiDelta } from '../services/periodComparison';
+
+interface DeltaBadgeProps {
+  delta: KpiDelta;
+  format?: (value: number) => string; // Absolute change; plain number by default
+  lowerIsBetter?: boolean; // E.g. refunds, where a drop is good news
+}
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1).replace('.', ',')}%`;
+
+// Change against the comparison period, shown under a KPI value
+export const DeltaBadge: React.FC<DeltaBadgeProps> = ({ delta, format = (v) => v.toLocaleString('pt-BR', { maximumFractionDigits: 1 }), lowerIsBetter = false }) => {
+  const { absolute, percent } = delta;
+  const good = lowerIsBetter ? absolute < 0 : absolute > 0;
+  const color = absolute === 0 ? 'text-slate-400' : good ? 'text-emerald-600' : 'text-red-600';
+  const Icon = absolute > 0 ? ArrowUpRight : absolute < 0 ? ArrowDownRight : Minus;
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 text-xs font-semibold ${color}`} title="Variação em relação ao período de comparação">
+      <Icon className="w-3.5 h-3.5" />
+      {absolute > 0 ? '+' : absolute < 0 ? '−' : ''}{format(Math.abs(absolute))}
+      {percent !== null && <span className="font-normal opacity-80 ml-1">({formatPercent(percent)})</span>}
+    </span>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { PlugZap, Store, WashingMachine } from 'lucide-react';
+import { DowntimeReport } from '../services/downtime';
+import { formatCurrency } from '../services/format';
+
+interface DowntimeLogProps {
+  report: DowntimeReport;
+}
+
+const formatMoment = (date: Date) =>
+  date.toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const formatDay = (businessDate: string) => businessDate.substring(0, 5);
+
+// Silences of the unit and its machines, biggest estimated loss first
+export const DowntimeLog: React.FC<DowntimeLogProps> = ({ report }) => (
+  <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+    <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex flex-wrap justify-between items-center gap-2">
+      <h3 className="font-bold text-slate-700 flex items-center gap-2">
+        <PlugZap className="w-5 h-5 text-slate-400" />
+        Paradas Detectadas
+      </h3>
+      {report.events.length > 0 && (
+        <span className="text-sm text-red-700 font-semibold">
+          {formatCurrency(report.lostRevenue)} de receita perdida estimada
+        </span>
+      )}
+    </div>
+    {report.events.length === 0 ? (
+      <p className="px-6 py-4 text-sm text-slate-500">
+        Nenhum silêncio fora do normal no período: todas as máquinas venderam no ritmo esperado para o horário.
+      </p>
+    ) : (
+      <>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-100 text-left text-slate-500">
+              <th className="px-6 py-3 font-normal">Onde</th>
+              <th className="px-6 py-3 font-normal">Sem vendas</th>
+              <th className="px-6 py-3 font-normal text-right">Horas abertas</th>
+              <th className="px-6 py-3 font-normal text-right">Ciclos esperados</th>
+              <th className="px-6 py-3 font-normal text-right">Receita perdida</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.events.map(e => (
+              <tr key={`${e.kind}-${e.machineId}-${e.start.getTime()}`} className="border-b border-slate-50 last:border-0 hover:bg-slate-50">
+                <td className="px-6 py-3 text-slate-700">
+                  <span className="flex items-center gap-2">
+                    {e.kind === 'UNIT'
+                      ? <Store className="w-4 h-4 text-red-500" />
+                      : <WashingMachine className="w-4 h-4 text-amber-500" />}
+                    {e.kind === 'UNIT' ? `${e.label} (unidade inteira)` : e.label}
+                  </span>
+                </td>
+                <td className="px-6 py-3 text-slate-600">
+                  {e.kind === 'UNIT'
+                    ? e.businessDates.length > 1
+                      ? `${formatDay(e.businessDates[0])} a ${formatDay(e.businessDates[e.businessDates.length - 1])}`
+                      : formatDay(e.businessDates[0])
+                    : `${formatMoment(e.start)} → ${e.ongoing ? 'fim dos dados' : formatMoment(e.end)}`}
+                  {e.ongoing && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-bold bg-red-100 text-red-700">Ainda parada</span>}
+                </td>
+                <td className="px-6 py-3 text-right text-slate-900">{e.openHours.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} h</td>
+                <td className="px-6 py-3 text-right text-slate-900">{e.expectedCycles.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</td>
+                <td className="px-6 py-3 text-right font-semibold text-red-700">{formatCurrency(e.lostRevenue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="px-6 py-3 text-xs text-slate-400 border-t border-slate-100">
+          Estimativa pelo ritmo normal da máquina em cada horário de funcionamento e pelo ticket médio dela.
+          Dias marcados também aparecem no Faturamento Diário do painel financeiro.
+        </p>
+      </>
+    )}
+  </div>
+);
@@ -2,20 +2,24 @@ import React from 'react';
 import { Dashboard } from './Dashboard';
 import { ComparativeView } from './ComparativeView';
 import { RevenueDashboard } from './RevenueDashboard';
-import { Transaction, DashboardMetadata, ExportOptions } from '../types';
-
-interface ReportData {
-  transactions: Transaction[];
-  metadata: DashboardMetadata;
-}
+import { ExportOptions, ReportData, Transaction } from '../types';
+import { BusinessDayCutoffs, cutoffForUnit } from '../services/businessDay';
+import { ComparedReports } from '../services/periodComparison';
+import { DowntimeEvent } from '../services/downtime';
 
 interface FullReportProps {
   selfServiceData: ReportData | null;
   attendantData: ReportData | null;
   options: ExportOptions;
+  cutoffs?: BusinessDayCutoffs;
+  comparison?: ComparedReports; // Prints the same deltas and overlays as the screen
+  projectionSample?: Transaction[];
+  revenueTarget?: number | null;
+  downtime?: DowntimeEvent[];
 }
 
-export const FullReport: React.FC<FullReportProps> = ({ selfServiceData, attendantData, options }) => {
+export const FullReport: React.FC<FullReportProps> = ({ selfServiceData, attendantData, options, cutoffs = {}, comparison, projectionSample, revenueTarget = null, downtime }) => {
+  const comparisonLabel = comparison?.label ?? undefined;
   return (
     <div className="w-full bg-white min-h-screen">
       {/* Self Service Section */}
@@ -25,7 +29,10 @@ export const FullReport: React.FC<FullReportProps> = ({ selfServiceData, attenda
             transactions={selfServiceData.transactions} 
             metadata={selfServiceData.metadata} 
             hideHeader={true}
+            businessDayStart={cutoffForUnit(cutoffs, selfServiceData.metadata.unitName)}
             printMode={true}
+            previousTransactions={comparison?.previousSelfService}
+            comparisonLabel={comparisonLabel}
           />
         </div>
       )}
@@ -37,7 +44,10 @@ export const FullReport: React.FC<FullReportProps> = ({ selfServiceData, attenda
             transactions={attendantData.transactions} 
             metadata={attendantData.metadata} 
             hideHeader={true}
+            businessDayStart={cutoffForUnit(cutoffs, attendantData.metadata.unitName)}
             printMode={true}
+            previousTransactions={comparison?.previousAttendant}
+            comparisonLabel={comparisonLabel}
           />
         </div>
       )}
@@ -60,6 +70,12 @@ export const FullReport: React.FC<FullReportProps> = ({ selfServiceData, attenda
             selfServiceTransactions={selfServiceData?.transactions || []}
             attendantTransactions={attendantData?.transactions || []}
             printMode={true}
+            previousSelfServiceTransactions={comparison?.previousSelfService}
+            previousAttendantTransactions={comparison?.previousAttendant}
+            comparisonLabel={comparisonLabel}
+            projectionSample={projectionSample}
+            revenueTarget={revenueTarget}
+            downtime={downtime}
           />
         </div>
       )}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Library, FolderOpen, Pencil, Trash2, Check, X, HardDrive, User, UserCog, History } from 'lucide-react';
+import { StoredImport, StorageEstimate } from '../services/datasetStore';
+
+interface ImportLibraryProps {
+  imports: StoredImport[];
+  storage: StorageEstimate | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onOpenHistory: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const formatImportDate = (iso: string): string =>
+  new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+export const ImportLibrary: React.FC<ImportLibraryProps> = ({ imports, storage, onOpen, onRename, onDelete, onOpenHistory }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (imports.length === 0) return null;
+
+  const startRename = (item: StoredImport) => {
+    setEditingId(item.id);
+    setDraftName(item.name);
+  };
+
+  const confirmRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const usedPercent = storage && storage.quota > 0 ? (storage.usage / storage.quota) * 100 : 0;
+
+  return (
+    <div className="max-w-4xl w-full mx-auto px-6 pb-12 space-y-3">
+      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+        <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center justify-between gap-4">
+          <h3 className="flex items-center gap-2 font-bold text-slate-700">
+            <Library className="w-4 h-4 text-slate-400" /> Importações salvas ({imports.length})
+          </h3>
+          <button
+            onClick={onOpenHistory}
+            className="flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+          >
+            <History className="w-4 h-4" /> Histórico mensal
+          </button>
+          {storage && (
+            <div className="flex items-center gap-2 text-xs text-slate-500" title="Espaço usado neste navegador">
+              <HardDrive className="w-4 h-4 text-slate-400" />
+              <div className="w-24 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${Math.max(usedPercent, 1)}%` }} />
+              </div>
+              {formatBytes(storage.usage)} de {formatBytes(storage.quota)}
+            </div>
+          )}
+        </div>
+        <ul className="divide-y divide-slate-50">
+          {imports.map(item => (
+            <li key={item.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 px-6 py-3 text-sm">
+              <div className="min-w-0 space-y-1">
+                {editingId === item.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') confirmRename(); if (e.key === 'Escape') setEditingId(null); }}
+                      className="flex-1 border border-slate-200 rounded-lg px-3 py-1"
+                    />
+                    <button onClick={confirmRename} className="p-1 text-emerald-600 hover:bg-emerald-50 rounded-md">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded-md">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <p className="font-medium text-slate-800 truncate">{item.name}</p>
+                )}
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                  <span>Importado em {formatImportDate(item.importedAt)}</span>
+                  {item.reports.map(r => (
+                    <span key={r.metadata.reportType} className="flex items-center gap-1">
+                      {r.metadata.reportType === 'ATTENDANT'
+                        ? <UserCog className="w-3 h-3 text-purple-500" />
+                        : <User className="w-3 h-3 text-pink-500" />}
+                      {r.transactionCount.toLocaleString('pt-BR')} transações
+                    </span>
+                  ))}
+                  <span className="truncate" title={item.fileNames.join(', ')}>{item.fileNames.join(', ')}</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => onOpen(item.id)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md text-blue-600 hover:bg-blue-50 transition-colors"
+                >
+                  <FolderOpen className="w-4 h-4" /> Abrir
+                </button>
+                <button
+                  onClick={() => startRename(item)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md text-slate-500 hover:bg-slate-100 transition-colors"
+                >
+                  <Pencil className="w-4 h-4" /> Renomear
+                </button>
+                <button
+                  onClick={() => onDelete(item.id)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md text-red-500 hover:text-red-700 hover:bg-red-50 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" /> Excluir
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <p className="text-xs text-slate-400 text-center">
+        As importações ficam salvas apenas neste dispositivo e podem ser abertas mesmo sem internet.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { X, WashingMachine, Save, Undo2 } from 'lucide-react';
+import { Transaction } from '../types';
+import {
+  MachineRegistryConfig, MachineSettings, MachineKind, MACHINE_KIND_LABELS, buildMachineRegistry
+} from '../services/machineRegistry';
+
+interface MachineRegistryEditorProps {
+  transactions: Transaction[]; // Everything loaded, both report types
+  config: MachineRegistryConfig;
+  onSave: (config: MachineRegistryConfig) => void;
+  onClose: () => void;
+}
+
+const KIND_COLORS: Record<MachineKind, string> = {
+  WASHER: 'bg-blue-100 text-blue-700',
+  DRYER: 'bg-orange-100 text-orange-700',
+  OTHER: 'bg-slate-100 text-slate-600'
+};
+
+export const MachineRegistryEditor: React.FC<MachineRegistryEditorProps> = ({ transactions, config, onSave, onClose }) => {
+  const [draft, setDraft] = useState<MachineRegistryConfig>({
+    machines: { ...config.machines },
+    aliases: { ...config.aliases }
+  });
+
+  const rawNames = useMemo(() => Array.from(new Set(transactions.map(t => t.productName))), [transactions]);
+  const registry = useMemo(() => buildMachineRegistry(rawNames, draft), [rawNames, draft]);
+
+  const usesById = useMemo(() => {
+    const uses = new Map<string, number>();
+    const countByRaw = new Map<string, number>();
+    transactions.forEach(t => countByRaw.set(t.productName, (countByRaw.get(t.productName) || 0) + 1));
+    countByRaw.forEach((count, raw) => {
+      const id = registry.resolve(raw).id;
+      uses.set(id, (uses.get(id) || 0) + count);
+    });
+    return uses;
+  }, [transactions, registry]);
+
+  const updateSettings = (id: string, patch: Partial<MachineSettings>) => {
+    setDraft(prev => ({ ...prev, machines: { ...prev.machines, [id]: { ...prev.machines[id], ...patch } } }));
+  };
+
+  const mergeInto = (id: string, targetId: string) => {
+    setDraft(prev => ({ ...prev, aliases: { ...prev.aliases, [id]: targetId } }));
+  };
+
+  const unmerge = (id: string) => {
+    setDraft(prev => {
+      const aliases = { ...prev.aliases };
+      delete aliases[id];
+      return { ...prev, aliases };
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in">
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col animate-in zoom-in-95">
+
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2 text-slate-800">
+            <WashingMachine className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-bold">Cadastro de Máquinas</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Número, tipo e capacidade são lidos dos nomes nos relatórios, e grafias diferentes da mesma máquina são
+            unificadas automaticamente. Use "Mesclar com" para juntar nomes que não foram reconhecidos.
+          </p>
+
+          <ul className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {registry.machines.map(m => (
+              <li key={m.id} className="px-4 py-3 space-y-2 text-sm">
+                <div className="flex flex-col md:flex-row md:items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded text-xs font-bold whitespace-nowrap ${KIND_COLORS[m.kind]}`}>
+                    {MACHINE_KIND_LABELS[m.kind]}{m.number !== null ? ` #${m.number}` : ''}
+                  </span>
+                  <input
+                    value={draft.machines[m.id]?.name || ''}
+                    onChange={(e) => updateSettings(m.id, { name: e.target.value || undefined })}
+                    placeholder={m.label}
+                    className="flex-1 border border-slate-200 rounded-lg px-3 py-1.5"
+                  />
+                  <label className="flex items-center gap-1 text-xs text-slate-500">
+                    Capacidade
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={draft.machines[m.id]?.capacityKg ?? ''}
+                      onChange={(e) => updateSettings(m.id, { capacityKg: e.target.value ? Number(e.target.value) : undefined })}
+                      placeholder={m.capacityKg !== null ? String(m.capacityKg) : '—'}
+                      className="w-20 border border-slate-200 rounded-lg px-2 py-1.5 text-sm"
+                    />
+                    kg
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-slate-500">
+                    Instalada em
+                    <input
+                      type="date"
+                      value={draft.machines[m.id]?.installedAt || ''}
+                      onChange={(e) => updateSettings(m.id, { installedAt: e.target.value || undefined })}
+                      className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm"
+                    />
+                  </label>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && mergeInto(m.id, e.target.value)}
+                    className="border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700 bg-white text-xs"
+                  >
+                    <option value="">Mesclar com...</option>
+                    {registry.machines.filter(other => other.id !== m.id).map(other => (
+                      <option key={other.id} value={other.id}>{other.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                  <span className="font-medium text-slate-500">{(usesById.get(m.id) || 0).toLocaleString('pt-BR')} usos</span>
+                  <span>·</span>
+                  <span>Nomes nos relatórios: {m.rawNames.join(', ')}</span>
+                  {m.mergedIds.map(mergedId => (
+                    <button
+                      key={mergedId}
+                      onClick={() => unmerge(mergedId)}
+                      className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 hover:bg-slate-200"
+                    >
+                      <Undo2 className="w-3 h-3" /> Separar {mergedId}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+            {registry.machines.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-slate-400">Nenhuma máquina encontrada nos relatórios.</li>
+            )}
+          </ul>
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-slate-600 font-medium hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 transition-colors shadow-md"
+          >
+            <Save className="w-4 h-4" /> Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
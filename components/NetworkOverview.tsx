@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Network, Wallet, TrendingUp, WashingMachine, Activity, Store, ChevronRight } from 'lucide-react';
+import { UnitReports, UnitSummary, summarizeUnit, summarizeNetwork } from '../services/networkSummary';
+import { formatCurrency } from '../services/format';
+import { SummaryCard } from './SummaryCard';
+
+interface NetworkOverviewProps {
+  units: UnitReports[];
+  onSelectUnit: (unitName: string) => void;
+}
+
+type SortKey = 'revenue' | 'cycles' | 'avgTicket' | 'revenuePerMachine';
+
+const SORT_LABELS: Record<SortKey, string> = {
+  revenue: 'Receita',
+  cycles: 'Ciclos',
+  avgTicket: 'Ticket médio',
+  revenuePerMachine: 'Receita/máquina'
+};
+
+export const NetworkOverview: React.FC<NetworkOverviewProps> = ({ units, onSelectUnit }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('revenue');
+
+  const summaries = useMemo(() => units.map(summarizeUnit), [units]);
+  const total = useMemo(() => summarizeNetwork(summaries), [summaries]);
+  const ranking = useMemo(
+    () => [...summaries].sort((a, b) => b[sortKey] - a[sortKey]),
+    [summaries, sortKey]
+  );
+
+  const formatValue = (s: UnitSummary, key: SortKey) =>
+    key === 'cycles' ? s.cycles.toLocaleString('pt-BR') : formatCurrency(s[key]);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6 space-y-8 pb-20">
+      <div className="bg-white border-2 border-blue-100 rounded-lg p-4 flex items-center gap-3 shadow-sm">
+        <div className="p-2 bg-blue-50 rounded-full">
+          <Network className="w-6 h-6 text-blue-600" />
+        </div>
+        <div>
+          <h1 className="text-xl font-bold text-slate-800 uppercase tracking-wide">Visão da Rede</h1>
+          <p className="text-sm text-slate-500">{units.length} unidades · clique em uma unidade para ver os painéis dela</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard
+          tone="blue"
+          title="Receita da Rede"
+          value={formatCurrency(total.revenue)}
+          subtext={`Self: ${formatCurrency(total.selfRevenue)} | Atend: ${formatCurrency(total.attendantRevenue)}`}
+          icon={<Wallet className="w-5 h-5 text-blue-600" />}
+        />
+        <SummaryCard
+          tone="blue"
+          title="Ciclos"
+          value={total.cycles.toLocaleString('pt-BR')}
+          subtext={`Média de ${(total.cycles / (units.length || 1)).toFixed(0)} por unidade`}
+          icon={<Activity className="w-5 h-5 text-blue-600" />}
+        />
+        <SummaryCard
+          tone="blue"
+          title="Ticket Médio"
+          value={formatCurrency(total.avgTicket)}
+          icon={<TrendingUp className="w-5 h-5 text-blue-600" />}
+        />
+        <SummaryCard
+          tone="blue"
+          title="Receita por Máquina"
+          value={formatCurrency(total.revenuePerMachine)}
+          subtext={`${total.machineCount} máquinas com uso`}
+          icon={<WashingMachine className="w-5 h-5 text-blue-600" />}
+        />
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+        <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center justify-between gap-4">
+          <h3 className="font-bold text-slate-700">Ranking de Unidades</h3>
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            Ordenar por
+            <select
+              value={sortKey}
+              onChange={(e) => setSortKey(e.target.value as SortKey)}
+              className="border border-slate-200 rounded-lg px-2 py-1 text-slate-700 bg-white"
+            >
+              {(Object.keys(SORT_LABELS) as SortKey[]).map(k => <option key={k} value={k}>{SORT_LABELS[k]}</option>)}
+            </select>
+          </div>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-100 text-left text-slate-500">
+              <th className="px-6 py-3 font-normal">#</th>
+              <th className="px-6 py-3 font-normal">Unidade</th>
+              {(Object.keys(SORT_LABELS) as SortKey[]).map(k => (
+                <th key={k} className={`px-6 py-3 font-normal text-right ${k === sortKey ? 'text-blue-600 font-semibold' : ''}`}>{SORT_LABELS[k]}</th>
+              ))}
+              <th className="px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranking.map((s, idx) => (
+              <tr
+                key={s.unitName}
+                onClick={() => onSelectUnit(s.unitName)}
+                className="border-b border-slate-50 last:border-0 hover:bg-blue-50 cursor-pointer"
+              >
+                <td className="px-6 py-3 text-slate-400">{idx + 1}</td>
+                <td className="px-6 py-3 font-medium text-slate-700">
+                  <span className="flex items-center gap-2"><Store className="w-4 h-4 text-slate-400" /> {s.unitName}</span>
+                </td>
+                {(Object.keys(SORT_LABELS) as SortKey[]).map(k => (
+                  <td key={k} className="px-6 py-3 text-right text-slate-900">{formatValue(s, k)}</td>
+                ))}
+                <td className="px-6 py-3 text-slate-300"><ChevronRight className="w-4 h-4" /></td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="bg-slate-50 font-semibold text-slate-800">
+              <td className="px-6 py-3"></td>
+              <td className="px-6 py-3">Total da rede</td>
+              {(Object.keys(SORT_LABELS) as SortKey[]).map(k => (
+                <td key={k} className="px-6 py-3 text-right">{formatValue(total, k)}</td>
+              ))}
+              <td className="px-6 py-3"></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-lg font-bold text-slate-700 mb-6">Receita por Unidade</h3>
+        <div style={{ height: Math.max(240, ranking.length * 40) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={ranking} layout="vertical" margin={{ top: 0, right: 20, left: 20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+              <XAxis type="number" tick={{ fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={(val) => `R$${val}`} />
+              <YAxis type="category" dataKey="unitName" width={160} tick={{ fontSize: 12 }} axisLine={false} tickLine={false} />
+              <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0' }} />
+              <Legend />
+              <Bar dataKey="selfRevenue" name="Self-Service" stackId="a" fill="#ec4899" />
+              <Bar dataKey="attendantRevenue" name="Atendente" stackId="a" fill="#9333ea" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Loader2, FileText, X } from 'lucide-react';
+
+export interface FileProgress {
+  fileName: string;
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+interface ParseProgressProps {
+  files: FileProgress[];
+  onCancel: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+export const ParseProgress: React.FC<ParseProgressProps> = ({ files, onCancel }) => {
+  const totalBytes = files.reduce((sum, f) => sum + f.totalBytes, 0);
+  const bytesRead = files.reduce((sum, f) => sum + f.bytesRead, 0);
+  const overall = totalBytes > 0 ? (bytesRead / totalBytes) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center text-slate-600 p-6">
+      <div className="max-w-xl w-full space-y-6">
+        <div className="flex flex-col items-center">
+          <Loader2 className="w-12 h-12 animate-spin text-pink-600 mb-4" />
+          <p className="font-medium animate-pulse">Gerando relatórios... {overall.toFixed(0)}%</p>
+        </div>
+
+        {files.length > 0 && (
+          <ul className="bg-white rounded-xl border border-slate-200 divide-y divide-slate-50">
+            {files.map((f, idx) => {
+              const pct = f.totalBytes > 0 ? (f.bytesRead / f.totalBytes) * 100 : 100;
+              return (
+                <li key={`${idx}-${f.fileName}`} className="px-5 py-3 space-y-2">
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <FileText className="w-4 h-4 text-slate-400 shrink-0" />
+                      <span className="font-medium text-slate-800 truncate">{f.fileName}</span>
+                    </span>
+                    <span className="text-xs text-slate-400 whitespace-nowrap">
+                      {formatSize(f.bytesRead)} / {formatSize(f.totalBytes)} · {f.rows.toLocaleString('pt-BR')} linhas
+                    </span>
+                  </div>
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-pink-500 to-purple-600 transition-all duration-200"
+                      style={{ width: `${pct}%` }}
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex justify-center">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-6 py-2 rounded-full font-medium text-slate-600 hover:bg-slate-200 transition-colors"
+          >
+            <X className="w-4 h-4" /> Cancelar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,375 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardCheck, AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, ArrowLeft, User, UserCog, Columns, Ban } from 'lucide-react';
+import { CsvFormat, ParseResult, SkipReason, SKIP_REASON_LABELS, UNKNOWN_UNIT, countSkipped } from '../services/csvParser';
+import { ColumnIndexMap, MAPPING_FIELDS, MAPPING_FIELD_LABELS, MappingSource } from '../services/columnMapping';
+import { EncodingChoice, EncodingDetection, ENCODING_LABELS } from '../services/encoding';
+import { mergeParseResults, MergeSource } from '../services/reportMerge';
+import { summarizeRefunds } from '../services/transactionKind';
+import { DELIMITER_LABELS } from '../services/csvTokenizer';
+import { getAdapter } from '../services/formatRegistry';
+import { isNetworkImport, unitNames } from '../services/networkSummary';
+import { DashboardMetadata } from '../types';
+
+// Which report a file feeds; IGNORED files are left out of the dashboards
+export type FileAssignment = DashboardMetadata['reportType'] | 'IGNORED';
+
+export interface ParsedFile {
+  file: File; // Kept so the file can be re-parsed with a different mapping or sheet
+  encodingChoice: EncodingChoice; // As picked on upload, reused when re-parsing
+  encoding?: EncodingDetection; // Text files only
+  sheet?: { name: string; names: string[] }; // Spreadsheet files only
+  detectedFormat: CsvFormat;
+  detectedReportType: DashboardMetadata['reportType'] | null; // As the file reads without an override
+  assignment: FileAssignment;
+  unitName?: string; // Picked in the review for a file that doesn't name its unit
+  mapping?: ColumnIndexMap; // Manual column assignment, if any
+  result: ParseResult;
+}
+
+export const mergeSourcesFor = (files: ParsedFile[], type: DashboardMetadata['reportType']): MergeSource[] =>
+  files.filter(f => f.assignment === type).map(f => ({
+    fileName: f.file.name,
+    result: f.unitName ? { ...f.result, metadata: { ...f.result.metadata, unitName: f.unitName } } : f.result
+  }));
+
+interface ParseReviewProps {
+  files: ParsedFile[];
+  onConfirm: () => void;
+  onCancel: () => void;
+  onEditMapping: (index: number) => void;
+  onSelectSheet: (index: number, sheetName: string) => void;
+  onAssign: (index: number, assignment: FileAssignment) => void;
+  onAssignUnit: (index: number, unitName: string | null) => void;
+}
+
+const MAPPING_SOURCE_LABELS: Record<MappingSource, string> = {
+  PROFILE: 'Perfil salvo',
+  MANUAL: 'Manual',
+  HEADER: 'Pelo cabeçalho',
+  DEFAULT: 'Posições padrão'
+};
+
+const REPORT_TYPE_LABELS: Record<DashboardMetadata['reportType'], string> = {
+  SELF_SERVICE: 'Self-Service',
+  ATTENDANT: 'Atendente'
+};
+
+const formatLabel = (format: CsvFormat): string => getAdapter(format)?.label || 'Desconhecido';
+
+const ASSIGNMENT_OPTIONS: { value: FileAssignment; label: string }[] = [
+  { value: 'SELF_SERVICE', label: 'Self-Service' },
+  { value: 'ATTENDANT', label: 'Atendente' },
+  { value: 'IGNORED', label: 'Ignorar arquivo' }
+];
+
+export const ParseReview: React.FC<ParseReviewProps> = ({
+  files, onConfirm, onCancel, onEditMapping, onSelectSheet, onAssign, onAssignUnit
+}) => {
+  const included = files.filter(f => f.assignment !== 'IGNORED');
+  const hasTransactions = included.some(f => f.result.transactions.length > 0);
+
+  const summary = useMemo(() => (['SELF_SERVICE', 'ATTENDANT'] as const).map(type => {
+    const sources = mergeSourcesFor(files, type);
+    const { report, duplicates } = mergeParseResults(sources, type);
+    return {
+      type,
+      files: sources.length,
+      rows: report?.transactions.length || 0,
+      duplicates
+    };
+  }), [files]);
+
+  // Units a file without one can be attached to, when the import is a network
+  const units = useMemo(() => {
+    const selfSources = mergeSourcesFor(files, 'SELF_SERVICE');
+    const attendantSources = mergeSourcesFor(files, 'ATTENDANT');
+    return isNetworkImport(selfSources, attendantSources) ? unitNames([...selfSources, ...attendantSources]) : null;
+  }, [files]);
+
+  return (
+    <div className="flex flex-col items-center min-h-[80vh] p-6">
+      <div className="max-w-4xl w-full space-y-6">
+        <div className="text-center space-y-2">
+          <div className="inline-flex p-3 bg-slate-100 rounded-full">
+            <ClipboardCheck className="w-8 h-8 text-slate-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900 tracking-tight">Revisão da Importação</h1>
+          <p className="text-slate-500">Confira o tipo identificado e quantas linhas foram aproveitadas antes de abrir os relatórios.</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {summary.map(s => (
+            <div
+              key={s.type}
+              className={`rounded-xl border p-4 flex items-center gap-3 ${s.type === 'ATTENDANT' ? 'border-purple-200 bg-purple-50' : 'border-pink-200 bg-pink-50'}`}
+            >
+              {s.type === 'ATTENDANT'
+                ? <UserCog className="w-6 h-6 text-purple-600" />
+                : <User className="w-6 h-6 text-pink-600" />}
+              <div className="text-sm">
+                <p className="font-bold text-slate-800">{REPORT_TYPE_LABELS[s.type]}</p>
+                <p className="text-slate-600">
+                  {s.files === 0
+                    ? 'Nenhum arquivo'
+                    : `${s.files} arquivo${s.files > 1 ? 's' : ''} · ${s.rows} transações${s.files > 1 ? ' (serão combinados)' : ''}`}
+                </p>
+                {s.duplicates.removed > 0 && (
+                  <div className="mt-1 text-xs text-amber-800">
+                    <p className="font-semibold">{s.duplicates.removed} duplicatas removidas:</p>
+                    <ul className="list-disc pl-4">
+                      {s.duplicates.byFile.map(d => (
+                        <li key={d.fileName}>{d.fileName}: {d.removed}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {files.map((file, idx) => (
+          <FileDiagnostics
+            key={`${idx}-${file.file.name}`}
+            file={file}
+            onEditMapping={() => onEditMapping(idx)}
+            onSelectSheet={(name) => onSelectSheet(idx, name)}
+            onAssign={(assignment) => onAssign(idx, assignment)}
+            units={units}
+            onAssignUnit={(unitName) => onAssignUnit(idx, unitName)}
+          />
+        ))}
+
+        <div className="flex justify-center gap-4 pt-2">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-6 py-3 rounded-full font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" /> Voltar
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!hasTransactions}
+            className={`
+              px-8 py-3 rounded-full font-bold text-white shadow-lg transition-all
+              ${hasTransactions
+                ? 'bg-gradient-to-r from-pink-500 to-purple-600 hover:shadow-pink-200'
+                : 'bg-slate-300 cursor-not-allowed'}
+            `}
+          >
+            Abrir Relatórios
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const FileDiagnostics: React.FC<{
+  file: ParsedFile;
+  onEditMapping: () => void;
+  onSelectSheet: (sheetName: string) => void;
+  onAssign: (assignment: FileAssignment) => void;
+  units: string[] | null;
+  onAssignUnit: (unitName: string | null) => void;
+}> = ({ file, onEditMapping, onSelectSheet, onAssign, units, onAssignUnit }) => {
+  const { diagnostics, metadata } = file.result;
+  const { mapping } = diagnostics;
+  const skippedTotal = countSkipped(diagnostics);
+  const refunds = summarizeRefunds(file.result.transactions);
+  const isIgnored = file.assignment === 'IGNORED';
+  const reassigned = !isIgnored && file.detectedReportType !== null && file.detectedReportType !== file.assignment;
+  const needsUnit = !isIgnored && !!units && metadata.unitName === UNKNOWN_UNIT;
+
+  return (
+    <div className={`bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden ${isIgnored ? 'opacity-60' : ''}`}>
+      <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 min-w-0">
+          {isIgnored
+            ? <Ban className="w-5 h-5 text-slate-400 shrink-0" />
+            : file.assignment === 'ATTENDANT'
+              ? <UserCog className="w-5 h-5 text-purple-500 shrink-0" />
+              : <User className="w-5 h-5 text-pink-500 shrink-0" />}
+          <h3 className="font-bold text-slate-700 truncate">{file.file.name}</h3>
+        </div>
+        <div className="flex items-center gap-2 text-xs whitespace-nowrap">
+          <span className="text-slate-400">Detectado: {formatLabel(file.detectedFormat)}</span>
+          <select
+            value={file.assignment}
+            onChange={(e) => onAssign(e.target.value as FileAssignment)}
+            className="border border-slate-200 rounded-full px-3 py-1 font-medium text-slate-700 bg-white"
+          >
+            {ASSIGNMENT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {isIgnored ? (
+        <div className="px-6 py-4 text-sm text-slate-500">
+          {file.detectedFormat === CsvFormat.UNKNOWN
+            ? 'Tipo de relatório não identificado. Escolha Self-Service ou Atendente para tentar importar.'
+            : 'Arquivo ignorado — não será incluído nos relatórios.'}
+        </div>
+      ) : (
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <Stat label="Linhas lidas" value={diagnostics.rowsRead} />
+            <Stat label="Aceitas" value={diagnostics.rowsAccepted} />
+            <Stat label="Ignoradas" value={skippedTotal} highlight={skippedTotal > 0} />
+            <Stat label="Cabeçalho" value={diagnostics.headerIndex === -1 ? '—' : `Linha ${diagnostics.headerIndex}`} />
+          </div>
+
+          {(refunds.refundCount > 0 || refunds.cancelledCount > 0) && (
+            <p className="text-xs text-slate-500">
+              Entre as aceitas: {refunds.refundCount} estornos e {refunds.cancelledCount} vendas canceladas, separados das vendas.
+            </p>
+          )}
+
+          <div className="text-sm text-slate-600 space-y-1">
+            <p className="flex items-center gap-2">
+              <span className="font-semibold text-slate-900">Unidade:</span>
+              {needsUnit ? (
+                <select
+                  value={file.unitName || ''}
+                  onChange={(e) => onAssignUnit(e.target.value || null)}
+                  className="border border-slate-200 rounded-lg px-2 py-0.5 text-slate-700 bg-white"
+                >
+                  <option value="">Não informada no arquivo</option>
+                  {units!.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              ) : metadata.unitName}
+            </p>
+            <p><span className="font-semibold text-slate-900">Período:</span> {metadata.period}</p>
+            {file.encoding && (
+              <p>
+                <span className="font-semibold text-slate-900">Codificação:</span> {ENCODING_LABELS[file.encoding.encoding]}
+                <span className="text-xs text-slate-400 ml-2">
+                  {file.encoding.source === 'MANUAL' ? '(escolhida manualmente)' : file.encoding.source === 'BOM' ? '(marcador BOM)' : '(detectada)'}
+                </span>
+              </p>
+            )}
+            {file.encoding && diagnostics.delimiter && (
+              <p><span className="font-semibold text-slate-900">Separador:</span> {DELIMITER_LABELS[diagnostics.delimiter]}</p>
+            )}
+            {file.sheet && (
+              <p className="flex items-center gap-2">
+                <span className="font-semibold text-slate-900">Aba:</span>
+                {file.sheet.names.length > 1 ? (
+                  <select
+                    value={file.sheet.name}
+                    onChange={(e) => onSelectSheet(e.target.value)}
+                    className="border border-slate-200 rounded-lg px-2 py-0.5 text-slate-700 bg-white"
+                  >
+                    {file.sheet.names.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                ) : file.sheet.name}
+              </p>
+            )}
+          </div>
+
+          {mapping && (
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border border-slate-100 bg-slate-50 text-xs text-slate-600">
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                <span className="font-semibold text-slate-900">
+                  Colunas: {MAPPING_SOURCE_LABELS[mapping.source]}{mapping.profileName ? ` (${mapping.profileName})` : ''}
+                </span>
+                {MAPPING_FIELDS.map(field => (
+                  <span key={field} className={mapping.unresolved.includes(field) ? 'text-amber-700' : ''}>
+                    {MAPPING_FIELD_LABELS[field]}: {diagnostics.headerColumns[mapping.columns[field]] || `Coluna ${mapping.columns[field] + 1}`}
+                  </span>
+                ))}
+              </div>
+              <button
+                onClick={onEditMapping}
+                className="flex items-center gap-1 px-3 py-1 rounded-md text-blue-600 hover:bg-blue-50 font-medium whitespace-nowrap transition-colors"
+              >
+                <Columns className="w-4 h-4" /> Ajustar colunas
+              </button>
+            </div>
+          )}
+
+          {(diagnostics.warnings.length > 0 || reassigned || (needsUnit && !file.unitName)) && (
+            <div className="p-3 text-sm text-amber-800 bg-amber-50 rounded-lg border border-amber-200 space-y-1">
+              {reassigned && file.assignment !== 'IGNORED' && (
+                <p className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  Arquivo identificado como {formatLabel(file.detectedFormat)}, mas será lido como {REPORT_TYPE_LABELS[file.assignment]}.
+                </p>
+              )}
+              {needsUnit && !file.unitName && (
+                <p className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  O arquivo não informa a unidade. Escolha uma acima; sem isso ele fica de fora da visão de rede.
+                </p>
+              )}
+              {diagnostics.warnings.map((w, idx) => (
+                <p key={idx} className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" /> {w}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {skippedTotal === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle2 className="w-4 h-4" /> Todas as linhas de dados foram aproveitadas.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {(Object.keys(diagnostics.skipped) as SkipReason[]).map(reason => (
+                <SkippedGroup key={reason} reason={reason} rows={diagnostics.skipped[reason] || []} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const MAX_VISIBLE_ROWS = 50;
+
+const SkippedGroup: React.FC<{ reason: SkipReason; rows: { lineNumber: number; raw: string }[] }> = ({ reason, rows }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="border border-slate-100 rounded-lg">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm text-slate-700 hover:bg-slate-50"
+      >
+        <span className="flex items-center gap-2">
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          {SKIP_REASON_LABELS[reason]}
+        </span>
+        <span className="font-medium text-slate-900">{rows.length}</span>
+      </button>
+      {isOpen && (
+        <div className="max-h-[240px] overflow-y-auto border-t border-slate-100">
+          <table className="w-full text-xs">
+            <tbody>
+              {rows.slice(0, MAX_VISIBLE_ROWS).map(row => (
+                <tr key={row.lineNumber} className="border-b border-slate-50 last:border-0">
+                  <td className="px-4 py-1 text-slate-400 whitespace-nowrap align-top">Linha {row.lineNumber}</td>
+                  <td className="px-4 py-1 text-slate-600 font-mono break-all">{row.raw}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > MAX_VISIBLE_ROWS && (
+            <p className="px-4 py-2 text-xs text-slate-400">
+              + {rows.length - MAX_VISIBLE_ROWS} linhas não exibidas
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string | number; highlight?: boolean }> = ({ label, value, highlight = false }) => (
+  <div className={`rounded-lg border p-3 ${highlight ? 'border-amber-200 bg-amber-50' : 'border-slate-100 bg-slate-50'}`}>
+    <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">{label}</div>
+    <div className={`text-xl font-extrabold ${highlight ? 'text-amber-700' : 'text-slate-800'}`}>{value}</div>
+  </div>
+);
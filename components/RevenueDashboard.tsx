@@ -1,14 +1,31 @@
 import React, { useMemo } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  PieChart, Pie, Cell, AreaChart, Area, Legend, LineChart, Line
+  PieChart, Pie, Cell, Area, Legend, LineChart, Line, ComposedChart, ReferenceLine
 } from 'recharts';
-import { Transaction, PrintProps } from '../types';
-import { DollarSign, TrendingUp, CreditCard, Wallet, CalendarCheck } from 'lucide-react';
+import { Transaction, CycleType, PrintProps } from '../types';
+import { DollarSign, TrendingUp, CreditCard, Wallet, CalendarCheck, Tags, Undo2, Target, PlugZap } from 'lucide-react';
+import { CATEGORY_COLORS, CATEGORY_LABELS, CATEGORY_ORDER } from '../services/classificationRules';
+import { countsAsRevenue, isSale, summarizeRefunds } from '../services/transactionKind';
+import { KpiDelta, kpiDelta } from '../services/periodComparison';
+import { MIN_SAMPLE_DAYS, projectMonthEnd } from '../services/monthProjection';
+import { DowntimeEvent } from '../services/downtime';
+import { eachBusinessDay, formatDate, parseBusinessDate } from '../services/businessDay';
+import { formatCurrency } from '../services/format';
+import { DeltaBadge } from './DeltaBadge';
 
 interface RevenueDashboardProps extends PrintProps {
   selfServiceTransactions: Transaction[];
   attendantTransactions: Transaction[];
+  // Comparison period per channel; null when that channel has no comparison data
+  previousSelfServiceTransactions?: Transaction[] | null;
+  previousAttendantTransactions?: Transaction[] | null;
+  comparisonLabel?: string;
+  // Loaded plus stored sales of the unit, for the month-end projection
+  projectionSample?: Transaction[];
+  revenueTarget?: number | null;
+  onRevenueTargetChange?: (target: number | null) => void;
+  downtime?: DowntimeEvent[]; // Marked on the daily chart
 }
 
 const COLORS = {
@@ -16,81 +33,177 @@ const COLORS = {
   attendant: '#9333ea', // Purple
   total: '#10b981',     // Emerald
   gold: '#f59e0b',      // Amber
+  down: '#ef4444',      // Red
+};
+
+// Chart days are keyed by the full businessDate, so ranges spanning years keep
+// their days apart; the axis only shows dd/mm
+const formatDayMonth = (businessDate: string) => businessDate.substring(0, 5);
+
+// Revenue KPIs and chart series for both channels
+const computeRevenueStats = (selfServiceTransactions: Transaction[], attendantTransactions: Transaction[]) => {
+  // Net revenue: sales minus refunds (stored negative); cancelled sales are left out
+  const selfRevenue = selfServiceTransactions.filter(countsAsRevenue);
+  const attendantRevenue = attendantTransactions.filter(countsAsRevenue);
+  const selfTotal = selfRevenue.reduce((sum, t) => sum + t.amount, 0);
+  const attendantTotal = attendantRevenue.reduce((sum, t) => sum + t.amount, 0);
+  const grandTotal = selfTotal + attendantTotal;
+
+  const refunds = summarizeRefunds([...selfServiceTransactions, ...attendantTransactions]);
+  const grossTotal = grandTotal + refunds.refundValue;
+  
+  const selfCount = selfServiceTransactions.filter(isSale).length;
+  const attendantCount = attendantTransactions.filter(isSale).length;
+  const totalCount = selfCount + attendantCount;
+
+  const selfTicket = selfCount > 0 ? selfTotal / selfCount : 0;
+  const attendantTicket = attendantCount > 0 ? attendantTotal / attendantCount : 0;
+  const avgTicket = totalCount > 0 ? grandTotal / totalCount : 0;
+
+  // Daily Aggregation
+  const dailyMap = new Map<string, { businessDate: string, self: number, attendant: number, total: number, rawDate: Date }>();
+  const allTransactions = [...selfRevenue, ...attendantRevenue];
+  
+  allTransactions.forEach(t => {
+      if (!dailyMap.has(t.businessDate)) {
+          dailyMap.set(t.businessDate, { 
+              businessDate: t.businessDate,
+              rawDate: parseBusinessDate(t.businessDate),
+              self: 0, 
+              attendant: 0, 
+              total: 0 
+          });
+      }
+      const day = dailyMap.get(t.businessDate)!;
+      day.total += t.amount;
+      if (selfRevenue.includes(t)) {
+          day.self += t.amount;
+      } else {
+          day.attendant += t.amount;
+      }
+  });
+
+  // Days without sales stay on the chart as zero, so a closed or broken day shows up
+  eachBusinessDay(Array.from(dailyMap.values(), d => d.rawDate)).forEach(day => {
+      const key = formatDate(day);
+      if (!dailyMap.has(key)) dailyMap.set(key, { businessDate: key, rawDate: day, self: 0, attendant: 0, total: 0 });
+  });
+  const dailyData = Array.from(dailyMap.values()).sort((a, b) => a.rawDate.getTime() - b.rawDate.getTime());
+
+  // Cumulative Data
+  let runningTotal = 0;
+  const cumulativeData = dailyData.map(day => {
+      runningTotal += day.total;
+      return { ...day, cumulative: runningTotal };
+  });
+
+  // Hourly Revenue Power
+  const hourlyRevenue = new Array(24).fill(0).map((_, i) => ({ hour: `${i}h`, revenue: 0 }));
+  allTransactions.forEach(t => {
+      const h = t.date.getHours();
+      if(h >= 0 && h < 24) hourlyRevenue[h].revenue += t.amount;
+  });
+
+  // Revenue by product category, split by channel
+  const categoryMap = new Map<CycleType, { self: number; attendant: number }>();
+  const addToCategory = (t: Transaction, channel: 'self' | 'attendant') => {
+      const entry = categoryMap.get(t.type) || { self: 0, attendant: 0 };
+      entry[channel] += t.amount;
+      categoryMap.set(t.type, entry);
+  };
+  selfRevenue.forEach(t => addToCategory(t, 'self'));
+  attendantRevenue.forEach(t => addToCategory(t, 'attendant'));
+
+  const categoryRevenue = CATEGORY_ORDER
+      .filter(type => categoryMap.has(type))
+      .map(type => {
+          const { self, attendant } = categoryMap.get(type)!;
+          return { type, name: CATEGORY_LABELS[type], self, attendant, total: self + attendant };
+      });
+
+  return {
+      selfTotal,
+      attendantTotal,
+      grandTotal,
+      grossTotal,
+      refunds,
+      selfTicket,
+      attendantTicket,
+      avgTicket,
+      dailyData,
+      cumulativeData,
+      hourlyRevenue,
+      categoryRevenue
+  };
 };
 
 export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({ 
   selfServiceTransactions, 
   attendantTransactions,
-  printMode = false
+  printMode = false,
+  previousSelfServiceTransactions = null,
+  previousAttendantTransactions = null,
+  comparisonLabel,
+  projectionSample,
+  revenueTarget = null,
+  onRevenueTargetChange,
+  downtime = []
 }) => {
 
-  const stats = useMemo(() => {
-    const selfTotal = selfServiceTransactions.reduce((sum, t) => sum + t.amount, 0);
-    const attendantTotal = attendantTransactions.reduce((sum, t) => sum + t.amount, 0);
-    const grandTotal = selfTotal + attendantTotal;
-    
-    const selfCount = selfServiceTransactions.length;
-    const attendantCount = attendantTransactions.length;
-    const totalCount = selfCount + attendantCount;
-
-    const selfTicket = selfCount > 0 ? selfTotal / selfCount : 0;
-    const attendantTicket = attendantCount > 0 ? attendantTotal / attendantCount : 0;
-    const avgTicket = totalCount > 0 ? grandTotal / totalCount : 0;
-
-    // Daily Aggregation
-    const dailyMap = new Map<string, { date: string, self: number, attendant: number, total: number, rawDate: Date }>();
-    const allTransactions = [...selfServiceTransactions, ...attendantTransactions];
-    
-    allTransactions.forEach(t => {
-        if (!dailyMap.has(t.rawDate)) {
-            dailyMap.set(t.rawDate, { 
-                date: t.rawDate.substring(0, 5), // dd/mm
-                rawDate: t.date,
-                self: 0, 
-                attendant: 0, 
-                total: 0 
-            });
-        }
-        const day = dailyMap.get(t.rawDate)!;
-        day.total += t.amount;
-        if (selfServiceTransactions.includes(t)) {
-            day.self += t.amount;
-        } else {
-            day.attendant += t.amount;
-        }
-    });
+  const stats = useMemo(
+    () => computeRevenueStats(selfServiceTransactions, attendantTransactions),
+    [selfServiceTransactions, attendantTransactions]
+  );
+  const previous = useMemo(
+    () => previousSelfServiceTransactions || previousAttendantTransactions
+      ? computeRevenueStats(previousSelfServiceTransactions || [], previousAttendantTransactions || [])
+      : null,
+    [previousSelfServiceTransactions, previousAttendantTransactions]
+  );
 
-    const dailyData = Array.from(dailyMap.values()).sort((a, b) => a.rawDate.getTime() - b.rawDate.getTime());
+  // A loaded channel without comparison data would read as a 100% drop, so its
+  // deltas, and the totals it feeds, are left out
+  const selfComparable = previous !== null && previousSelfServiceTransactions !== null;
+  const attendantComparable = previous !== null && previousAttendantTransactions !== null;
+  const totalsComparable = previous !== null
+    && (selfServiceTransactions.length === 0 || selfComparable)
+    && (attendantTransactions.length === 0 || attendantComparable);
+  const deltaOf = (comparable: boolean, pick: (s: typeof stats) => number): KpiDelta | undefined =>
+    comparable && previous ? kpiDelta(pick(stats), pick(previous)) : undefined;
 
-    // Cumulative Data
-    let runningTotal = 0;
-    const cumulativeData = dailyData.map(day => {
-        runningTotal += day.total;
-        return { ...day, cumulative: runningTotal };
-    });
+  // Comparison series overlaid day by day (first day against first day) and hour by hour
+  const dailyChart = stats.dailyData.map((d, i) => ({ ...d, previous: totalsComparable ? previous?.dailyData[i]?.total : undefined }));
+  const hourlyChart = stats.hourlyRevenue.map((h, i) => ({ ...h, previous: totalsComparable ? previous?.hourlyRevenue[i].revenue : undefined }));
 
-    // Hourly Revenue Power
-    const hourlyRevenue = new Array(24).fill(0).map((_, i) => ({ hour: `${i}h`, revenue: 0 }));
-    allTransactions.forEach(t => {
-        const h = t.date.getHours();
-        if(h >= 0 && h < 24) hourlyRevenue[h].revenue += t.amount;
-    });
+  const projection = useMemo(
+    () => projectionSample ? projectMonthEnd([...selfServiceTransactions, ...attendantTransactions], projectionSample) : null,
+    [selfServiceTransactions, attendantTransactions, projectionSample]
+  );
 
-    return {
-        selfTotal,
-        attendantTotal,
-        grandTotal,
-        selfTicket,
-        attendantTicket,
-        avgTicket,
-        dailyData,
-        cumulativeData,
-        hourlyRevenue
-    };
-  }, [selfServiceTransactions, attendantTransactions]);
+  // The cumulative line may start before the projected month, so the projection
+  // is drawn on the line's scale; the last real day anchors the dashed segment
+  const lastCumulative = stats.cumulativeData.length > 0 ? stats.cumulativeData[stats.cumulativeData.length - 1].cumulative : 0;
+  const chartOffset = projection ? lastCumulative - projection.actual : 0;
+  const cumulativeChart = [
+    ...stats.cumulativeData.map((d, i) => i === stats.cumulativeData.length - 1 && projection?.remainingDays
+      ? { ...d, projected: d.cumulative, band: [d.cumulative, d.cumulative] }
+      : d),
+    ...(projection?.days || []).map(d => ({
+      businessDate: d.businessDate,
+      projected: d.projected + chartOffset,
+      band: [d.band[0] + chartOffset, d.band[1] + chartOffset]
+    }))
+  ];
+  const targetGap = projection && revenueTarget !== null ? projection.projectedTotal - revenueTarget : null;
+  const neededPerDay = projection && revenueTarget !== null && projection.remainingDays > 0
+    ? Math.max(0, revenueTarget - projection.actual) / projection.remainingDays
+    : null;
 
-  const formatCurrency = (val: number) => 
-    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+  // A day the whole unit was down outranks a machine silence on the same day
+  const unitDownDays = new Set(downtime.filter(e => e.kind === 'UNIT').flatMap(e => e.businessDates));
+  const machineDownDays = new Set(downtime.filter(e => e.kind === 'MACHINE').flatMap(e => e.businessDates));
+  unitDownDays.forEach(day => machineDownDays.delete(day));
+  const downtimeLoss = downtime.reduce((sum, e) => sum + e.lostRevenue, 0);
 
   const animationProps = { isAnimationActive: !printMode };
 
@@ -107,16 +220,22 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
                 Painel Financeiro
             </h1>
             <p className="text-sm text-slate-500">Análise de faturamento, ticket médio e tendências</p>
+            {previous && comparisonLabel && (
+                <p className="text-xs text-slate-400 mt-1">Variações em relação a {comparisonLabel}</p>
+            )}
         </div>
       </div>
 
       {/* KPI Cards */}
-      <div className={`grid grid-cols-1 md:grid-cols-4 gap-4 ${printMode ? 'mb-6' : ''}`}>
+      <div className={`grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 ${printMode ? 'mb-6' : ''}`}>
         <FinancialCard 
             title="Faturamento Total" 
             value={formatCurrency(stats.grandTotal)} 
             icon={<Wallet className="w-5 h-5 text-emerald-600" />}
             color="bg-emerald-50 border-emerald-200 text-emerald-900"
+            subtext={stats.refunds.refundCount > 0 ? `Líquido · Bruto: ${formatCurrency(stats.grossTotal)}` : undefined}
+            delta={deltaOf(totalsComparable, s => s.grandTotal)}
+            formatDelta={formatCurrency}
         />
         <FinancialCard 
             title="Receita Self-Service" 
@@ -124,6 +243,8 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
             icon={<CreditCard className="w-5 h-5 text-pink-600" />}
             color="bg-pink-50 border-pink-200 text-pink-900"
             subtext={`${((stats.selfTotal / (stats.grandTotal || 1)) * 100).toFixed(1)}% do total`}
+            delta={deltaOf(selfComparable, s => s.selfTotal)}
+            formatDelta={formatCurrency}
         />
         <FinancialCard 
             title="Receita Atendente" 
@@ -131,6 +252,8 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
             icon={<CreditCard className="w-5 h-5 text-purple-600" />}
             color="bg-purple-50 border-purple-200 text-purple-900"
             subtext={`${((stats.attendantTotal / (stats.grandTotal || 1)) * 100).toFixed(1)}% do total`}
+            delta={deltaOf(attendantComparable, s => s.attendantTotal)}
+            formatDelta={formatCurrency}
         />
         <FinancialCard 
             title="Ticket Médio Geral" 
@@ -138,6 +261,18 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
             icon={<TrendingUp className="w-5 h-5 text-amber-600" />}
             color="bg-amber-50 border-amber-200 text-amber-900"
             subtext={`Self: ${formatCurrency(stats.selfTicket)} | Atend: ${formatCurrency(stats.attendantTicket)}`}
+            delta={deltaOf(totalsComparable, s => s.avgTicket)}
+            formatDelta={formatCurrency}
+        />
+        <FinancialCard 
+            title="Estornos" 
+            value={formatCurrency(stats.refunds.refundValue)} 
+            icon={<Undo2 className="w-5 h-5 text-red-600" />}
+            color="bg-red-50 border-red-200 text-red-900"
+            subtext={`${stats.refunds.refundCount} estornos · ${((stats.refunds.refundValue / (stats.grossTotal || 1)) * 100).toFixed(1)}% do bruto${stats.refunds.cancelledCount > 0 ? ` · ${stats.refunds.cancelledCount} canceladas` : ''}`}
+            delta={deltaOf(totalsComparable, s => s.refunds.refundValue)}
+            formatDelta={formatCurrency}
+            lowerIsBetter
         />
       </div>
 
@@ -154,9 +289,9 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
             </div>
             <div className="h-[300px]">
                 <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={stats.dailyData} margin={{top: 10, right: 10, left: 0, bottom: 0}}>
+                    <ComposedChart data={dailyChart} margin={{top: 10, right: 10, left: 0, bottom: 0}}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                        <XAxis dataKey="date" tick={{fontSize: 12}} axisLine={false} tickLine={false} />
+                        <XAxis dataKey="businessDate" tickFormatter={formatDayMonth} tick={{fontSize: 12}} axisLine={false} tickLine={false} />
                         <YAxis tick={{fontSize: 11}} axisLine={false} tickLine={false} tickFormatter={(val) => `R$${val}`} />
                         {!printMode && <Tooltip 
                             cursor={{fill: '#f8fafc'}}
@@ -166,9 +301,25 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
                         <Legend />
                         <Bar dataKey="self" name="Self Service" stackId="a" fill={COLORS.self} radius={[0,0,0,0]} {...animationProps} />
                         <Bar dataKey="attendant" name="Atendente" stackId="a" fill={COLORS.attendant} radius={[4,4,0,0]} {...animationProps} />
-                    </BarChart>
+                        {totalsComparable && (
+                            <Line type="monotone" dataKey="previous" name="Comparação (total)" stroke="#64748b" strokeDasharray="5 4" strokeWidth={2} dot={false} {...animationProps} />
+                        )}
+                        {Array.from(unitDownDays).map(day => (
+                            <ReferenceLine key={`unit-${day}`} x={day} stroke={COLORS.down} strokeWidth={2} strokeDasharray="3 3" />
+                        ))}
+                        {Array.from(machineDownDays).map(day => (
+                            <ReferenceLine key={`machine-${day}`} x={day} stroke={COLORS.gold} strokeDasharray="3 3" />
+                        ))}
+                    </ComposedChart>
                 </ResponsiveContainer>
             </div>
+            {downtime.length > 0 && (
+                <p className="text-xs text-slate-500 mt-3 flex items-center gap-1.5">
+                    <PlugZap className="w-4 h-4 text-red-500" />
+                    {downtime.length} {downtime.length === 1 ? 'parada detectada' : 'paradas detectadas'} · {formatCurrency(downtimeLoss)} de receita perdida estimada.
+                    Linhas vermelhas: unidade sem vendas; amarelas: máquina parada.
+                </p>
+            )}
         </div>
 
         {/* Composition Pie */}
@@ -207,6 +358,50 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
         </div>
       </div>
 
+      {/* Revenue by Category */}
+      <div className={`bg-white p-6 rounded-xl border border-slate-200 shadow-sm ${printMode ? 'mb-6 break-inside-avoid' : ''}`}>
+        <h3 className="text-lg font-bold text-slate-700 mb-2 flex items-center gap-2">
+            <Tags className="w-5 h-5 text-slate-400" />
+            Receita por Categoria
+        </h3>
+        <p className="text-xs text-slate-400 mb-6">Faturamento por tipo de produto, conforme as regras de classificação</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="md:col-span-2 h-[250px]">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={stats.categoryRevenue} layout="vertical" margin={{top: 0, right: 10, left: 10, bottom: 0}}>
+                        <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                        <XAxis type="number" tick={{fontSize: 11}} axisLine={false} tickLine={false} tickFormatter={(val) => `R$${val}`} />
+                        <YAxis type="category" dataKey="name" width={110} tick={{fontSize: 12}} axisLine={false} tickLine={false} />
+                        {!printMode && <Tooltip 
+                            cursor={{fill: '#f8fafc'}}
+                            formatter={(value: number) => formatCurrency(value)}
+                            contentStyle={{borderRadius: '8px', border: '1px solid #e2e8f0'}}
+                        />}
+                        <Legend />
+                        <Bar dataKey="self" name="Self Service" stackId="c" fill={COLORS.self} {...animationProps} />
+                        <Bar dataKey="attendant" name="Atendente" stackId="c" fill={COLORS.attendant} radius={[0,4,4,0]} {...animationProps} />
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+            <ul className="space-y-2 text-sm self-center">
+                {stats.categoryRevenue.map(c => (
+                    <li key={c.type} className="flex items-center justify-between gap-3">
+                        <span className="flex items-center gap-2 text-slate-600">
+                            <span className="w-3 h-3 rounded-sm" style={{backgroundColor: CATEGORY_COLORS[c.type]}}></span>
+                            {c.name}
+                        </span>
+                        <span className="font-semibold text-slate-800">
+                            {formatCurrency(c.total)}
+                            <span className="text-xs text-slate-400 font-normal ml-2">
+                                {((c.total / (stats.grandTotal || 1)) * 100).toFixed(1)}%
+                            </span>
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+      </div>
+
       {/* Secondary Charts Row */}
       <div className={`grid grid-cols-1 md:grid-cols-2 gap-6 ${printMode ? 'mb-6 break-inside-avoid' : ''}`}>
         
@@ -215,7 +410,7 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
             <h3 className="text-lg font-bold text-slate-700 mb-6">Evolução Acumulada (Mês)</h3>
             <div className="h-[250px]">
                 <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={stats.cumulativeData}>
+                    <ComposedChart data={cumulativeChart}>
                         <defs>
                             <linearGradient id="colorTotal" x1="0" y1="0" x2="0" y2="1">
                                 <stop offset="5%" stopColor={COLORS.total} stopOpacity={0.3}/>
@@ -223,17 +418,81 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
                             </linearGradient>
                         </defs>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                        <XAxis dataKey="date" tick={{fontSize: 12}} axisLine={false} tickLine={false} />
+                        <XAxis dataKey="businessDate" tickFormatter={formatDayMonth} tick={{fontSize: 12}} axisLine={false} tickLine={false} />
                         <YAxis hide />
                         {!printMode && <Tooltip 
-                            formatter={(value: number) => formatCurrency(value)} 
+                            formatter={(value: number | number[]) => Array.isArray(value)
+                                ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}`
+                                : formatCurrency(value)} 
                             labelFormatter={(label) => `Dia ${label}`}
                             contentStyle={{borderRadius: '8px'}}
                         />}
+                        {projection && projection.remainingDays > 0 && (
+                            <Area type="monotone" dataKey="band" name="Faixa provável" stroke="none" fill={COLORS.total} fillOpacity={0.12} {...animationProps} />
+                        )}
                         <Area type="monotone" dataKey="cumulative" name="Acumulado" stroke={COLORS.total} fillOpacity={1} fill="url(#colorTotal)" strokeWidth={3} {...animationProps} />
-                    </AreaChart>
+                        {projection && projection.remainingDays > 0 && (
+                            <Line type="monotone" dataKey="projected" name="Projeção" stroke={COLORS.total} strokeDasharray="5 4" strokeWidth={2} dot={false} {...animationProps} />
+                        )}
+                        {projection && revenueTarget !== null && (
+                            <ReferenceLine y={revenueTarget + chartOffset} stroke={COLORS.gold} strokeDasharray="4 4" ifOverflow="extendDomain" label={{ value: 'Meta', position: 'insideTopLeft', fontSize: 11, fill: COLORS.gold }} />
+                        )}
+                    </ComposedChart>
                 </ResponsiveContainer>
             </div>
+
+            {/* Month-end projection */}
+            {projectionSample && (
+                <div className="mt-4 pt-4 border-t border-slate-100 text-sm">
+                    {!projection ? (
+                        <p className="text-xs text-slate-400">Histórico insuficiente para projetar o fechamento (mínimo de {MIN_SAMPLE_DAYS} dias com vendas).</p>
+                    ) : (
+                        <div className="space-y-2">
+                            <div className="flex justify-between gap-3">
+                                <span className="text-slate-500">
+                                    {projection.remainingDays > 0 ? `Fechamento projetado (${projection.monthLabel})` : `Fechamento de ${projection.monthLabel}`}
+                                </span>
+                                <span className="font-bold text-slate-800">{formatCurrency(projection.projectedTotal)}</span>
+                            </div>
+                            {projection.remainingDays > 0 && (
+                                <p className="text-xs text-slate-400">
+                                    Faixa provável {formatCurrency(projection.low)} – {formatCurrency(projection.high)} · faltam {projection.remainingDays} dias ·
+                                    média por dia da semana de {projection.sampleDays} dias
+                                </p>
+                            )}
+                            <div className="flex justify-between items-center gap-3">
+                                <span className="text-slate-500 flex items-center gap-1.5">
+                                    <Target className="w-4 h-4 text-amber-500" /> Meta do mês
+                                </span>
+                                {printMode || !onRevenueTargetChange ? (
+                                    <span className="font-semibold text-slate-700">{revenueTarget !== null ? formatCurrency(revenueTarget) : '—'}</span>
+                                ) : (
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={100}
+                                        placeholder="Definir meta"
+                                        value={revenueTarget ?? ''}
+                                        onChange={(e) => {
+                                            const value = parseFloat(e.target.value);
+                                            onRevenueTargetChange(value > 0 ? value : null);
+                                        }}
+                                        className="w-32 border border-slate-200 rounded-md px-2 py-0.5 text-right text-slate-700"
+                                    />
+                                )}
+                            </div>
+                            {targetGap !== null && (
+                                <p className={`text-xs font-medium ${targetGap >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                                    {targetGap >= 0
+                                        ? `Projeção ${formatCurrency(targetGap)} acima da meta`
+                                        : `Projeção ${formatCurrency(-targetGap)} abaixo da meta`}
+                                    {neededPerDay !== null && ` · necessário ${formatCurrency(neededPerDay)} por dia até o fim do mês`}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
 
         {/* Hourly Revenue */}
@@ -241,7 +500,7 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
             <h3 className="text-lg font-bold text-slate-700 mb-6">Volume Financeiro por Horário</h3>
             <div className="h-[250px]">
                 <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={stats.hourlyRevenue}>
+                    <LineChart data={hourlyChart}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
                         <XAxis dataKey="hour" tick={{fontSize: 11}} axisLine={false} tickLine={false} interval={2} />
                         <YAxis hide />
@@ -249,7 +508,11 @@ export const RevenueDashboard: React.FC<RevenueDashboardProps> = ({
                             formatter={(value: number) => formatCurrency(value)}
                             contentStyle={{borderRadius: '8px'}}
                         />}
+                        {totalsComparable && <Legend />}
                         <Line type="monotone" dataKey="revenue" name="Faturamento" stroke={COLORS.gold} strokeWidth={3} dot={{r:3, fill:COLORS.gold}} {...animationProps} />
+                        {totalsComparable && (
+                            <Line type="monotone" dataKey="previous" name="Comparação" stroke="#94a3b8" strokeDasharray="5 4" strokeWidth={2} dot={false} {...animationProps} />
+                        )}
                     </LineChart>
                 </ResponsiveContainer>
             </div>
@@ -266,8 +529,11 @@ const FinancialCard: React.FC<{
     icon: React.ReactNode; 
     color: string;
     subtext?: string;
-}> = ({ title, value, icon, color, subtext }) => (
-    <div className={`rounded-xl p-5 border flex flex-col justify-between h-32 ${color.split(' ')[0]} ${color.split(' ')[1]}`}>
+    delta?: KpiDelta;
+    formatDelta?: (value: number) => string;
+    lowerIsBetter?: boolean;
+}> = ({ title, value, icon, color, subtext, delta, formatDelta, lowerIsBetter }) => (
+    <div className={`rounded-xl p-5 border flex flex-col justify-between min-h-[8rem] ${color.split(' ')[0]} ${color.split(' ')[1]}`}>
         <div className="flex justify-between items-start">
             <span className={`text-xs font-bold uppercase tracking-wider opacity-70 ${color.split(' ')[2]}`}>{title}</span>
             <div className="bg-white/50 p-1.5 rounded-md">
@@ -277,6 +543,7 @@ const FinancialCard: React.FC<{
         <div>
             <div className={`text-2xl font-extrabold ${color.split(' ')[2]}`}>{value}</div>
             {subtext && <div className="text-xs opacity-70 mt-1 font-medium">{subtext}</div>}
+            {delta && <div className="mt-1"><DeltaBadge delta={delta} format={formatDelta} lowerIsBetter={lowerIsBetter} /></div>}
         </div>
     </div>
 );
\ No newline at end of file
@@ -0,0 +1,153 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Footprints, Repeat, Droplets, Wallet, Clock, Lightbulb } from 'lucide-react';
+import { Transaction } from '../types';
+import { UnitCapacitySettings } from '../services/utilization';
+import { VISIT_KIND_LABELS, VisitKind, reconstructSessions } from '../services/sessions';
+import { formatCurrency } from '../services/format';
+import { SummaryCard } from './SummaryCard';
+
+interface SessionsViewProps {
+  transactions: Transaction[]; // Self-service sales of one unit
+  unitName: string;
+  settings: UnitCapacitySettings;
+  onSettingsChange: (settings: UnitCapacitySettings) => void;
+}
+
+const COLORS: Record<VisitKind, string> = {
+  WASH_DRY: '#10b981',
+  WASH_ONLY: '#ec4899',
+  DRY_ONLY: '#2dd4bf'
+};
+
+// Below this share of washes followed by a dry, drying is worth promoting
+const LOW_CONVERSION = 0.5;
+// Above it, nearly every customer dries and dryer capacity is what limits sales
+const HIGH_CONVERSION = 0.8;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+export const SessionsView: React.FC<SessionsViewProps> = ({ transactions, unitName, settings, onSettingsChange }) => {
+  const report = useMemo(() => reconstructSessions(transactions, settings), [transactions, settings]);
+  const hourlyChart = report.byHour.map(h => ({ ...h, label: `${h.hour}h` }));
+
+  const setMinutes = (field: 'washMinutes' | 'dryWindowMinutes', value: string) => {
+    const minutes = parseInt(value, 10);
+    if (minutes > 0) onSettingsChange({ ...settings, [field]: minutes });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6 space-y-8 pb-20">
+      <div className="bg-white border-2 border-teal-100 rounded-lg p-4 flex items-center gap-3 shadow-sm">
+        <div className="p-2 bg-teal-50 rounded-full">
+          <Footprints className="w-6 h-6 text-teal-600" />
+        </div>
+        <div>
+          <h1 className="text-xl font-bold text-slate-800 uppercase tracking-wide">Visitas e Conversão</h1>
+          <p className="text-sm text-slate-500">
+            {unitName} · visitas do self-service reconstruídas pelo horário e forma de pagamento de cada venda
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-wrap items-center gap-x-6 gap-y-3 text-sm text-slate-600">
+        <label className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-slate-400" /> Lavagem dura
+          <input
+            type="number"
+            min={1}
+            value={settings.washMinutes}
+            onChange={(e) => setMinutes('washMinutes', e.target.value)}
+            className="w-16 border border-slate-200 rounded-md px-2 py-0.5 text-slate-700"
+          />
+          min
+        </label>
+        <label className="flex items-center gap-2">
+          Secagem até
+          <input
+            type="number"
+            min={1}
+            value={settings.dryWindowMinutes}
+            onChange={(e) => setMinutes('dryWindowMinutes', e.target.value)}
+            className="w-16 border border-slate-200 rounded-md px-2 py-0.5 text-slate-700"
+          />
+          min após o fim da lavagem conta como a mesma visita
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard
+          tone="teal"
+          title="Conversão Lavar → Secar"
+          value={formatPercent(report.conversionRate)}
+          subtext={`${report.convertedVisits} de ${report.washVisits} visitas com lavagem`}
+          icon={<Repeat className="w-5 h-5 text-teal-600" />}
+        />
+        <SummaryCard
+          tone="teal"
+          title="Lavagens sem Secagem"
+          value={String(report.washOnlyVisits)}
+          subtext={`${report.dryOnlyVisits} visitas só para secar`}
+          icon={<Droplets className="w-5 h-5 text-teal-600" />}
+        />
+        <SummaryCard
+          tone="teal"
+          title="Gasto Médio por Visita"
+          value={formatCurrency(report.avgVisitSpend)}
+          subtext={`Lavou e secou: ${formatCurrency(report.avgSpendByKind.WASH_DRY)} | Só lavou: ${formatCurrency(report.avgSpendByKind.WASH_ONLY)}`}
+          icon={<Wallet className="w-5 h-5 text-teal-600" />}
+        />
+        <SummaryCard
+          tone="teal"
+          title="Espera até Secar"
+          value={report.medianWaitMinutes !== null ? `${report.medianWaitMinutes.toFixed(0)} min` : '—'}
+          subtext="Mediana entre o fim da lavagem e o início da secagem"
+          icon={<Clock className="w-5 h-5 text-teal-600" />}
+        />
+      </div>
+
+      {report.washVisits > 0 && (report.conversionRate < LOW_CONVERSION || report.conversionRate >= HIGH_CONVERSION) && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-900 flex items-start gap-2">
+          <Lightbulb className="w-4 h-4 mt-0.5 shrink-0" />
+          {report.conversionRate < LOW_CONVERSION ? (
+            <p>
+              Só {formatPercent(report.conversionRate)} das visitas com lavagem usam a secadora. Uma promoção de secagem
+              (ex.: desconto na secagem logo após lavar) pode capturar parte das {report.washOnlyVisits} visitas que levaram a roupa molhada.
+            </p>
+          ) : (
+            <p>
+              {formatPercent(report.conversionRate)} dos clientes que lavam também secam. Se as secadoras aparecem saturadas na aba
+              Capacidade, mais secadoras tendem a virar receita direta.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-lg font-bold text-slate-700 mb-2">Visitas por Horário</h3>
+        <p className="text-xs text-slate-400 mb-6">Pela hora da primeira venda de cada visita</p>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={hourlyChart} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} axisLine={false} tickLine={false} interval={1} />
+              <YAxis tick={{ fontSize: 11 }} axisLine={false} tickLine={false} allowDecimals={false} />
+              <Tooltip cursor={{ fill: '#f8fafc' }} contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0' }} />
+              <Legend />
+              {(Object.keys(VISIT_KIND_LABELS) as VisitKind[]).map((kind, i, kinds) => (
+                <Bar
+                  key={kind}
+                  dataKey={kind}
+                  name={VISIT_KIND_LABELS[kind]}
+                  stackId="visits"
+                  fill={COLORS[kind]}
+                  radius={i === kinds.length - 1 ? [4, 4, 0, 0] : [0, 0, 0, 0]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+
+const TONES = {
+  blue: 'bg-blue-50 border-blue-200 text-blue-900',
+  sky: 'bg-sky-50 border-sky-200 text-sky-900',
+  teal: 'bg-teal-50 border-teal-200 text-teal-900'
+};
+
+export type SummaryCardTone = keyof typeof TONES;
+
+interface SummaryCardProps {
+  title: string;
+  value: string;
+  subtext?: string;
+  icon: React.ReactNode;
+  tone: SummaryCardTone;
+}
+
+export const SummaryCard: React.FC<SummaryCardProps> = ({ title, value, subtext, icon, tone }) => (
+  <div className={`p-5 rounded-xl border ${TONES[tone]} shadow-sm`}>
+    <div className="flex justify-between items-start mb-2">
+      <span className="text-xs font-bold uppercase opacity-70">{title}</span>
+      {icon}
+    </div>
+    <div className="text-2xl font-bold">{value}</div>
+    {subtext && <div className="text-xs mt-1 opacity-70">{subtext}</div>}
+  </div>
+);
@@ -0,0 +1,183 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { ArrowLeft, History, Wallet, Activity, TrendingUp, PieChart as PieIcon } from 'lucide-react';
+import { UnitHistory } from '../services/datasetStore';
+import { MonthlyMetric, buildMonthlyHistory, monthlyDelta } from '../services/monthlyHistory';
+import { formatCurrency } from '../services/format';
+
+interface TrendViewProps {
+  units: string[];
+  history: UnitHistory | null; // Transactions already re-tagged with the current settings
+  onSelectUnit: (unitName: string) => void;
+  onClose: () => void;
+}
+
+const COLORS = {
+  self: '#ec4899',
+  attendant: '#9333ea',
+  total: '#10b981',
+  wash: '#3b82f6',
+  dry: '#f97316',
+  gold: '#f59e0b'
+};
+
+// Percent change, or percentage points for shares
+const DeltaCell: React.FC<{ value: number | null; points?: boolean }> = ({ value, points = false }) => {
+  if (value === null) return <td className="px-3 py-2 text-right text-slate-300">—</td>;
+  const text = `${value > 0 ? '+' : ''}${value.toFixed(1).replace('.', ',')}${points ? ' p.p.' : '%'}`;
+  return (
+    <td className={`px-3 py-2 text-right text-xs font-medium ${value > 0 ? 'text-emerald-600' : value < 0 ? 'text-red-600' : 'text-slate-400'}`}>
+      {text}
+    </td>
+  );
+};
+
+const ChartCard: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactElement }> = ({ title, icon, children }) => (
+  <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+    <h3 className="text-lg font-bold text-slate-700 flex items-center gap-2 mb-6">
+      {icon}
+      {title}
+    </h3>
+    <div className="h-[260px]">
+      <ResponsiveContainer width="100%" height="100%">
+        {children}
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export const TrendView: React.FC<TrendViewProps> = ({ units, history, onSelectUnit, onClose }) => {
+  const months = useMemo(
+    () => history ? buildMonthlyHistory(history.selfService, history.attendant) : [],
+    [history]
+  );
+
+  const delta = (month: string, metric: MonthlyMetric, lag: number) => monthlyDelta(months, month, metric, lag);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6 space-y-6 pb-20">
+      <button onClick={onClose} className="flex items-center gap-1 text-sm text-slate-400 hover:text-pink-600">
+        <ArrowLeft className="w-4 h-4" /> Voltar
+      </button>
+
+      <div className="bg-white border-2 border-blue-100 rounded-lg p-4 flex flex-col md:flex-row md:items-center justify-between gap-4 shadow-sm">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-50 rounded-full">
+            <History className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-slate-800 uppercase tracking-wide">Histórico Mensal</h1>
+            <p className="text-sm text-slate-500">Evolução mês a mês das importações salvas, sem contar duas vezes meses repetidos</p>
+          </div>
+        </div>
+        <select
+          value={history?.unitName || ''}
+          onChange={(e) => onSelectUnit(e.target.value)}
+          className="border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white"
+        >
+          {!history && <option value="">Selecione a unidade</option>}
+          {units.map(u => <option key={u} value={u}>{u}</option>)}
+        </select>
+      </div>
+
+      {months.length === 0 ? (
+        <div className="bg-white rounded-xl border border-slate-200 p-10 text-center text-sm text-slate-400">
+          {history ? 'Nenhuma transação salva para esta unidade.' : 'Escolha uma unidade para ver o histórico.'}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChartCard title="Faturamento Mensal" icon={<Wallet className="w-5 h-5 text-slate-400" />}>
+              <BarChart data={months} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} axisLine={false} tickLine={false} />
+                <YAxis tick={{ fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={(val) => `R$${val}`} />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0' }} />
+                <Legend />
+                <Bar dataKey="selfRevenue" name="Self-Service" stackId="a" fill={COLORS.self} />
+                <Bar dataKey="attendantRevenue" name="Atendente" stackId="a" fill={COLORS.attendant} radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartCard>
+
+            <ChartCard title="Ciclos e Mix Lavagem/Secagem" icon={<Activity className="w-5 h-5 text-slate-400" />}>
+              <LineChart data={months} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} axisLine={false} tickLine={false} />
+                <YAxis tick={{ fontSize: 11 }} axisLine={false} tickLine={false} />
+                <Tooltip contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0' }} />
+                <Legend />
+                <Line type="monotone" dataKey="cycles" name="Ciclos" stroke={COLORS.total} strokeWidth={3} dot={{ r: 3 }} />
+                <Line type="monotone" dataKey="washCount" name="Lavagens" stroke={COLORS.wash} strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="dryCount" name="Secagens" stroke={COLORS.dry} strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartCard>
+
+            <ChartCard title="Ticket Médio" icon={<TrendingUp className="w-5 h-5 text-slate-400" />}>
+              <LineChart data={months} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} axisLine={false} tickLine={false} />
+                <YAxis tick={{ fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={(val) => `R$${val}`} />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0' }} />
+                <Line type="monotone" dataKey="avgTicket" name="Ticket médio" stroke={COLORS.gold} strokeWidth={3} dot={{ r: 3 }} />
+              </LineChart>
+            </ChartCard>
+
+            <ChartCard title="Participação Self-Service" icon={<PieIcon className="w-5 h-5 text-slate-400" />}>
+              <LineChart data={months} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} axisLine={false} tickLine={false} />
+                <YAxis tick={{ fontSize: 11 }} axisLine={false} tickLine={false} domain={[0, 100]} tickFormatter={(val) => `${val}%`} />
+                <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0' }} />
+                <Line type="monotone" dataKey="selfShare" name="Self-Service (% da receita)" stroke={COLORS.self} strokeWidth={3} dot={{ r: 3 }} />
+              </LineChart>
+            </ChartCard>
+          </div>
+
+          <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+            <div className="bg-slate-50 px-6 py-3 border-b border-slate-200">
+              <h3 className="font-bold text-slate-700">Comparativo Mês a Mês (MoM) e Ano a Ano (YoY)</h3>
+            </div>
+            <table className="w-full text-sm whitespace-nowrap">
+              <thead>
+                <tr className="border-b border-slate-100 text-left text-slate-500">
+                  <th className="px-3 py-2 font-normal">Mês</th>
+                  <th className="px-3 py-2 font-normal text-right">Receita</th>
+                  <th className="px-3 py-2 font-normal text-right">MoM</th>
+                  <th className="px-3 py-2 font-normal text-right">YoY</th>
+                  <th className="px-3 py-2 font-normal text-right">Ciclos</th>
+                  <th className="px-3 py-2 font-normal text-right">MoM</th>
+                  <th className="px-3 py-2 font-normal text-right">YoY</th>
+                  <th className="px-3 py-2 font-normal text-right">Lavagens / Secagens</th>
+                  <th className="px-3 py-2 font-normal text-right">Ticket médio</th>
+                  <th className="px-3 py-2 font-normal text-right">MoM</th>
+                  <th className="px-3 py-2 font-normal text-right">Self-Service</th>
+                  <th className="px-3 py-2 font-normal text-right">MoM</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...months].reverse().map(m => (
+                  <tr key={m.month} className="border-b border-slate-50 last:border-0 hover:bg-slate-50">
+                    <td className="px-3 py-2 font-medium text-slate-700">{m.label}</td>
+                    <td className="px-3 py-2 text-right text-slate-900">{formatCurrency(m.revenue)}</td>
+                    <DeltaCell value={delta(m.month, 'revenue', 1)} />
+                    <DeltaCell value={delta(m.month, 'revenue', 12)} />
+                    <td className="px-3 py-2 text-right text-slate-900">{m.cycles.toLocaleString('pt-BR')}</td>
+                    <DeltaCell value={delta(m.month, 'cycles', 1)} />
+                    <DeltaCell value={delta(m.month, 'cycles', 12)} />
+                    <td className="px-3 py-2 text-right text-slate-600">{m.washCount} / {m.dryCount}</td>
+                    <td className="px-3 py-2 text-right text-slate-900">{formatCurrency(m.avgTicket)}</td>
+                    <DeltaCell value={delta(m.month, 'avgTicket', 1)} />
+                    <td className="px-3 py-2 text-right text-slate-900">{m.selfShare.toFixed(1)}%</td>
+                    <DeltaCell value={delta(m.month, 'selfShare', 1)} points />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
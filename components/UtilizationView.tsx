@@ -0,0 +1,223 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Gauge, Clock, Timer, AlertTriangle, Hourglass, WashingMachine, Wind } from 'lucide-react';
+import { Transaction } from '../types';
+import { MachineRegistryConfig } from '../services/machineRegistry';
+import { DowntimeReport } from '../services/downtime';
+import { DowntimeLog } from './DowntimeLog';
+import { SummaryCard } from './SummaryCard';
+import { SATURATION_THRESHOLD, UnitCapacitySettings, UtilizationSlot, computeUtilization } from '../services/utilization';
+
+interface UtilizationViewProps {
+  transactions: Transaction[]; // Both channels of one unit
+  unitName: string;
+  settings: UnitCapacitySettings;
+  machineConfig: MachineRegistryConfig;
+  downtime: DowntimeReport;
+  onSettingsChange: (settings: UnitCapacitySettings) => void;
+}
+
+const COLORS = {
+  washer: '#3b82f6',
+  dryer: '#f97316',
+  saturation: '#ef4444'
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+const formatHours = (value: number) => `${value.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} h`;
+
+// Charts plot percentages; kinds without machines stay out of the chart
+const toChartSlot = (slot: UtilizationSlot) => ({
+  washer: slot.washer !== null ? slot.washer * 100 : undefined,
+  dryer: slot.dryer !== null ? slot.dryer * 100 : undefined
+});
+
+export const UtilizationView: React.FC<UtilizationViewProps> = ({ transactions, unitName, settings, machineConfig, downtime, onSettingsChange }) => {
+  const report = useMemo(
+    () => computeUtilization(transactions, settings, machineConfig),
+    [transactions, settings, machineConfig]
+  );
+
+  const saturated = report.machines.filter(m => m.saturated);
+  const hourlyChart = report.byHour.map(h => ({ label: `${h.hour}h`, ...toChartSlot(h) }));
+  const weekdayChart = report.byWeekday.map(d => ({ label: d.name.substring(0, 3), ...toChartSlot(d) }));
+
+  const setMinutes = (field: 'washMinutes' | 'dryMinutes', value: string) => {
+    const minutes = parseInt(value, 10);
+    if (minutes > 0) onSettingsChange({ ...settings, [field]: minutes });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6 space-y-8 pb-20">
+      <div className="bg-white border-2 border-sky-100 rounded-lg p-4 flex items-center gap-3 shadow-sm">
+        <div className="p-2 bg-sky-50 rounded-full">
+          <Gauge className="w-6 h-6 text-sky-600" />
+        </div>
+        <div>
+          <h1 className="text-xl font-bold text-slate-800 uppercase tracking-wide">Utilização e Capacidade</h1>
+          <p className="text-sm text-slate-500">
+            {unitName} · tempo de máquina ocupado em relação ao tempo aberto, em {report.days} dias
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-wrap items-center gap-x-6 gap-y-3 text-sm text-slate-600">
+        <label className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-slate-400" /> Abre às
+          <input
+            type="time"
+            value={settings.opensAt}
+            onChange={(e) => onSettingsChange({ ...settings, opensAt: e.target.value || settings.opensAt })}
+            className="border border-slate-200 rounded-md px-2 py-0.5 text-slate-700"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Fecha às
+          <input
+            type="time"
+            value={settings.closesAt}
+            onChange={(e) => onSettingsChange({ ...settings, closesAt: e.target.value || settings.closesAt })}
+            className="border border-slate-200 rounded-md px-2 py-0.5 text-slate-700"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <WashingMachine className="w-4 h-4 text-slate-400" /> Lavagem
+          <input
+            type="number"
+            min={1}
+            value={settings.washMinutes}
+            onChange={(e) => setMinutes('washMinutes', e.target.value)}
+            className="w-16 border border-slate-200 rounded-md px-2 py-0.5 text-slate-700"
+          />
+          min
+        </label>
+        <label className="flex items-center gap-2">
+          <Wind className="w-4 h-4 text-slate-400" /> Secagem
+          <input
+            type="number"
+            min={1}
+            value={settings.dryMinutes}
+            onChange={(e) => setMinutes('dryMinutes', e.target.value)}
+            className="w-16 border border-slate-200 rounded-md px-2 py-0.5 text-slate-700"
+          />
+          min
+        </label>
+        <span className="text-xs text-slate-400">Abertura igual ao fechamento = 24 horas.</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard
+          tone="sky"
+          title="Utilização Média"
+          value={formatPercent(report.utilization)}
+          subtext={`${report.machines.length} lavadoras e secadoras`}
+          icon={<Gauge className="w-5 h-5 text-sky-600" />}
+        />
+        <SummaryCard
+          tone="sky"
+          title="Horas em Uso"
+          value={formatHours(report.busyHours)}
+          subtext={`de ${formatHours(report.availableHours)} disponíveis`}
+          icon={<Timer className="w-5 h-5 text-sky-600" />}
+        />
+        <SummaryCard
+          tone="sky"
+          title="Capacidade Ociosa"
+          value={formatHours(report.idleHours)}
+          subtext="Horas de máquina paradas com a loja aberta"
+          icon={<Hourglass className="w-5 h-5 text-sky-600" />}
+        />
+        <SummaryCard
+          tone="sky"
+          title="Máquinas Saturadas"
+          value={String(saturated.length)}
+          subtext={`${formatPercent(SATURATION_THRESHOLD)}+ ocupadas no horário de pico`}
+          icon={<AlertTriangle className="w-5 h-5 text-sky-600" />}
+        />
+      </div>
+
+      {saturated.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-800 space-y-1">
+          <p className="font-bold flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> Saturação no pico</p>
+          <ul className="list-disc pl-5">
+            {saturated.map(m => (
+              <li key={m.id}>
+                {m.label}: {formatPercent(m.peakHourUtilization)} ocupada às {m.peakHour}h
+                ({formatPercent(m.utilization)} no período todo).
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-red-600">Nesses horários clientes podem estar esperando ou desistindo; vale avaliar mais equipamentos ou remanejar máquinas ociosas.</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+        <div className="bg-slate-50 px-6 py-3 border-b border-slate-200">
+          <h3 className="font-bold text-slate-700">Utilização por Máquina</h3>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-100 text-left text-slate-500">
+              <th className="px-6 py-3 font-normal">Máquina</th>
+              <th className="px-6 py-3 font-normal text-right">Usos</th>
+              <th className="px-6 py-3 font-normal text-right">Horas em uso</th>
+              <th className="px-6 py-3 font-normal">Utilização</th>
+              <th className="px-6 py-3 font-normal text-right">Pico</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.machines.map(m => (
+              <tr key={m.id} className="border-b border-slate-50 last:border-0 hover:bg-slate-50">
+                <td className="px-6 py-3 text-slate-700">
+                  {m.label}
+                  {m.saturated && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-bold bg-red-100 text-red-700">Saturada</span>}
+                </td>
+                <td className="px-6 py-3 text-right text-slate-900">{m.uses}</td>
+                <td className="px-6 py-3 text-right text-slate-900">{formatHours(m.busyHours)}</td>
+                <td className="px-6 py-3">
+                  <div className="flex items-center gap-2">
+                    <div className="w-32 h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${Math.min(m.utilization, 1) * 100}%`, backgroundColor: m.kind === 'WASHER' ? COLORS.washer : COLORS.dryer }}
+                      />
+                    </div>
+                    <span className="text-slate-900 font-medium">{formatPercent(m.utilization)}</span>
+                  </div>
+                </td>
+                <td className="px-6 py-3 text-right text-slate-600">{m.peakHour}h · {formatPercent(m.peakHourUtilization)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <DowntimeLog report={downtime} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {[
+          { title: 'Utilização por Hora', data: hourlyChart, interval: 2 },
+          { title: 'Utilização por Dia da Semana', data: weekdayChart, interval: 0 }
+        ].map(chart => (
+          <div key={chart.title} className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+            <h3 className="text-lg font-bold text-slate-700 mb-6">{chart.title}</h3>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chart.data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} axisLine={false} tickLine={false} interval={chart.interval} />
+                  <YAxis tick={{ fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={(val) => `${val}%`} />
+                  <Tooltip formatter={(value: number) => `${value.toFixed(0)}%`} contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0' }} />
+                  <Legend />
+                  <ReferenceLine y={SATURATION_THRESHOLD * 100} stroke={COLORS.saturation} strokeDasharray="4 4" />
+                  <Bar dataKey="washer" name="Lavadoras" fill={COLORS.washer} radius={[2, 2, 0, 0]} />
+                  <Bar dataKey="dryer" name="Secadoras" fill={COLORS.dryer} radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
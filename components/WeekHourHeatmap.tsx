@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { Transaction, PrintProps } from '../types';
+import { HEATMAP_METRIC_LABELS, HeatmapMetric, buildHeatmap, diffHeatmap, heatmapMax } from '../services/heatmap';
+
+interface WeekHourHeatmapProps extends PrintProps {
+  selfServiceTransactions: Transaction[];
+  attendantTransactions: Transaction[];
+}
+
+type HeatmapMode = 'SELF' | 'ATTENDANT' | 'BOTH' | 'DIFF';
+
+const MODE_LABELS: Record<HeatmapMode, string> = {
+  SELF: 'Self Service',
+  ATTENDANT: 'Atendente',
+  BOTH: 'Ambos',
+  DIFF: 'Diferença'
+};
+
+const COLORS: Record<HeatmapMode, string> = {
+  SELF: '#ec4899',
+  ATTENDANT: '#9333ea',
+  BOTH: '#10b981',
+  DIFF: '#ec4899' // Positive side; the negative side uses the attendant color
+};
+
+const DAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const withAlpha = (hex: string, alpha: number): string => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha.toFixed(3)})`;
+};
+
+// Short enough to fit a cell, so the printed report keeps the numbers
+const formatCell = (value: number, metric: HeatmapMetric): string => {
+  const abs = Math.abs(value);
+  if (abs < 0.05) return '';
+  const sign = value < 0 ? '−' : '';
+  if (abs >= 1000) return `${sign}${(abs / 1000).toFixed(1).replace('.', ',')}k`;
+  return `${sign}${abs.toFixed(metric === 'AVERAGE' ? 1 : 0).replace('.', ',')}`;
+};
+
+const formatTooltip = (value: number, metric: HeatmapMetric): string =>
+  metric === 'REVENUE'
+    ? new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+    : `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} ciclos`;
+
+// Operational weekday × clock hour; with both channels loaded it can also show
+// either channel alone or where one outsells the other
+export const WeekHourHeatmap: React.FC<WeekHourHeatmapProps> = ({
+  selfServiceTransactions,
+  attendantTransactions,
+  printMode = false
+}) => {
+  const hasSelf = selfServiceTransactions.length > 0;
+  const hasAttendant = attendantTransactions.length > 0;
+  const modes: HeatmapMode[] = hasSelf && hasAttendant ? ['BOTH', 'SELF', 'ATTENDANT', 'DIFF'] : [hasSelf ? 'SELF' : 'ATTENDANT'];
+
+  const [metric, setMetric] = useState<HeatmapMetric>('CYCLES');
+  const [selectedMode, setMode] = useState<HeatmapMode>(modes[0]);
+  const mode = modes.includes(selectedMode) ? selectedMode : modes[0];
+
+  const grid = useMemo(() => {
+    const self = () => buildHeatmap(selfServiceTransactions, metric);
+    const attendant = () => buildHeatmap(attendantTransactions, metric);
+    switch (mode) {
+      case 'SELF': return self();
+      case 'ATTENDANT': return attendant();
+      case 'DIFF': return diffHeatmap(self(), attendant());
+      case 'BOTH': return buildHeatmap([...selfServiceTransactions, ...attendantTransactions], metric);
+    }
+  }, [selfServiceTransactions, attendantTransactions, metric, mode]);
+
+  const max = heatmapMax(grid);
+  const peak = grid.reduce<{ day: number; hour: number; value: number }>((best, row, day) =>
+    row.reduce((b, value, hour) => value > b.value ? { day, hour, value } : b, best), { day: 0, hour: 0, value: 0 });
+
+  const cellColor = (value: number): string => {
+    if (max === 0 || value === 0) return '#f8fafc';
+    const color = mode === 'DIFF' && value < 0 ? COLORS.ATTENDANT : COLORS[mode];
+    return withAlpha(color, 0.08 + 0.92 * (Math.abs(value) / max));
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-md transition-all ${active ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm break-inside-avoid">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-slate-700 flex items-center gap-2">
+            <Grid3x3 className="w-5 h-5 text-slate-400" />
+            Mapa de Calor: Dia × Hora
+          </h3>
+          <p className="text-xs text-slate-400">
+            {HEATMAP_METRIC_LABELS[metric]}{modes.length > 1 ? ` · ${MODE_LABELS[mode]}` : ''}
+            {mode !== 'DIFF' && peak.value > 0 && ` · pico: ${DAY_LABELS[peak.day]} ${peak.hour}h`}
+          </p>
+        </div>
+        {!printMode && (
+          <div className="flex flex-wrap gap-2 text-xs font-medium no-print">
+            <div className="bg-slate-100 p-1 rounded-lg flex">
+              {(Object.keys(HEATMAP_METRIC_LABELS) as HeatmapMetric[]).map(m => (
+                <button key={m} onClick={() => setMetric(m)} className={toggleClass(metric === m)}>{HEATMAP_METRIC_LABELS[m]}</button>
+              ))}
+            </div>
+            {modes.length > 1 && (
+              <div className="bg-slate-100 p-1 rounded-lg flex">
+                {modes.map(m => (
+                  <button key={m} onClick={() => setMode(m)} className={toggleClass(mode === m)}>{MODE_LABELS[m]}</button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate text-[10px]" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th></th>
+              {HOURS.map(h => <th key={h} className="font-normal text-slate-400">{h}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {DAY_LABELS.map((label, day) => (
+              <tr key={label}>
+                <th className="pr-2 text-left font-medium text-slate-500 whitespace-nowrap">{label}</th>
+                {HOURS.map(hour => {
+                  const value = grid[day][hour];
+                  const strong = max > 0 && Math.abs(value) / max > 0.55;
+                  return (
+                    <td
+                      key={hour}
+                      title={`${label} ${hour}h: ${formatTooltip(value, metric)}`}
+                      className={`h-7 min-w-[1.75rem] rounded text-center tabular-nums ${strong ? 'text-white font-semibold' : 'text-slate-600'}`}
+                      style={{ backgroundColor: cellColor(value) }}
+                    >
+                      {formatCell(value, metric)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-end gap-2 mt-3 text-xs text-slate-400">
+        {mode === 'DIFF' ? (
+          <>
+            <span>Mais atendente</span>
+            <div className="w-32 h-2 rounded-full" style={{ background: `linear-gradient(to right, ${COLORS.ATTENDANT}, #f8fafc, ${COLORS.SELF})` }} />
+            <span>Mais self-service</span>
+          </>
+        ) : (
+          <>
+            <span>Menos</span>
+            <div className="w-32 h-2 rounded-full" style={{ background: `linear-gradient(to right, #f8fafc, ${COLORS[mode]})` }} />
+            <span>Mais</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { FormatAdapter, SkipReason, cleanCell, findRecordWith, findSalesPeriod, startsWithTotal } from '../formatAdapter';
+
+// Attendant terminal export: header with "Nome Terminal", "Venda (R$)" and "Data";
+// the unit name is the first cell of each data row
+export const attendantAdapter: FormatAdapter = {
+  id: 'ATTENDANT',
+  label: 'Atendente',
+  reportType: 'ATTENDANT',
+  fieldRules: {
+    product: { synonyms: ['Nome Terminal', 'Terminal', 'Produto', 'Serviço', 'Servico'], fallback: 4 },
+    amount: { synonyms: ['Venda (R$)', 'Valor Venda', 'Valor', 'Total'], fallback: 8 },
+    date: { synonyms: ['Data', 'Data Venda', 'Data da Venda'], fallback: 12 },
+    time: { synonyms: ['Hora', 'Hora Venda', 'Horário', 'Horario'], fallback: 13 },
+    payment: { synonyms: ['Forma de Pagamento', 'Forma Pagamento', 'Pagamento', 'Meio de Pagamento'], fallback: 5 }
+  },
+
+  detect: (records) => findRecordWith(records, 'Nome Terminal', 'Venda (R$)', 'Data') !== -1 ? 1 : 0,
+
+  findHeader: (records) => findRecordWith(records, 'Data', 'Hora'),
+
+  extractMetadata: (records) => ({ period: findSalesPeriod(records) }),
+
+  isSummaryRow: startsWithTotal,
+
+  mapRow: (cols, columns) => {
+    // Valid row check: must have a date in the date column
+    if (!cols[columns.date] || !cols[columns.date].includes('/')) return SkipReason.MISSING_DATE;
+
+    const potentialName = cols[0] ? cols[0].replace(/['"]/g, "").trim() : "";
+    return {
+      product: cleanCell(cols[columns.product]),
+      amount: cleanCell(cols[columns.amount]) || "0",
+      date: cleanCell(cols[columns.date]),
+      time: cleanCell(cols[columns.time]) || "00:00:00",
+      payment: cleanCell(cols[columns.payment]),
+      unitName: potentialName && potentialName.toLowerCase() !== "cliente" ? potentialName : undefined
+    };
+  }
+};
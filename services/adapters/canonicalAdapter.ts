@@ -0,0 +1,99 @@
+import { ReportData } from '../../types';
+import { FormatAdapter, cleanCell, startsWithTotal, DETECTION_WINDOW } from '../formatAdapter';
+import { normalizeHeaderCell } from '../columnMapping';
+import { CATEGORY_LABELS } from '../classificationRules';
+import { TRANSACTION_KIND_LABELS } from '../transactionKind';
+
+// Vendor-neutral layout for systems without a dedicated adapter:
+//
+//   Unidade:;Lave & Pague Centro        (optional)
+//   Tipo:;ATTENDANT                     (optional, SELF_SERVICE by default)
+//   Data;Hora;Produto;Valor;Pagamento
+//   01/03/2025;08:15;Lavadora 01;18,00;Pix
+//
+// Dates may also be ISO (2025-03-01) and times may omit the seconds.
+const REQUIRED_HEADER = ['data', 'hora', 'produto', 'valor'];
+
+const findCanonicalHeader = (records: string[][]): number => {
+  const limit = Math.min(records.length, DETECTION_WINDOW);
+  for (let i = 0; i < limit; i++) {
+    const cells = records[i].map(normalizeHeaderCell);
+    if (REQUIRED_HEADER.every(name => cells.includes(name))) return i;
+  }
+  return -1;
+};
+
+const toBrDate = (value: string): string => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return iso ? `${iso[3]}/${iso[2]}/${iso[1]}` : value;
+};
+
+const toFullTime = (value: string): string => /^\d{1,2}:\d{2}$/.test(value) ? `${value.padStart(5, '0')}:00` : value;
+
+export const canonicalAdapter: FormatAdapter = {
+  id: 'CANONICAL',
+  label: 'CSV padrão',
+  reportType: 'SELF_SERVICE',
+  fieldRules: {
+    date: { synonyms: ['Data'], fallback: 0 },
+    time: { synonyms: ['Hora'], fallback: 1 },
+    product: { synonyms: ['Produto', 'Máquina', 'Maquina', 'Serviço', 'Servico'], fallback: 2 },
+    amount: { synonyms: ['Valor'], fallback: 3 },
+    payment: { synonyms: ['Pagamento', 'Forma de Pagamento'], fallback: 4 }
+  },
+
+  // Generic column names also appear in vendor exports, so vendors win ties
+  detect: (records) => findCanonicalHeader(records) !== -1 ? 0.5 : 0,
+
+  findHeader: findCanonicalHeader,
+
+  extractMetadata: (records) => {
+    const preamble = records.slice(0, Math.max(findCanonicalHeader(records), 0));
+    const valueOf = (label: string) => {
+      const record = preamble.find(r => normalizeHeaderCell(r[0]) === label);
+      return record && record[1] ? cleanCell(record[1]) : undefined;
+    };
+    const reportType = valueOf('tipo:')?.toUpperCase();
+    return {
+      unitName: valueOf('unidade:'),
+      reportType: reportType === 'SELF_SERVICE' || reportType === 'ATTENDANT' ? reportType : undefined
+    };
+  },
+
+  isSummaryRow: startsWithTotal,
+
+  mapRow: (cols, columns) => ({
+    product: cleanCell(cols[columns.product]),
+    amount: cleanCell(cols[columns.amount]) || "0",
+    date: toBrDate(cleanCell(cols[columns.date])),
+    time: toFullTime(cleanCell(cols[columns.time]) || "00:00:00"),
+    payment: cleanCell(cols[columns.payment])
+  })
+};
+
+// --- Writing ---
+
+// Extra columns are informative; "Status" is read back to keep refunds and cancellations
+const CANONICAL_HEADER = ['Data', 'Hora', 'Produto', 'Valor', 'Pagamento', 'Status', 'Categoria', 'Maquina'];
+
+const csvCell = (value: string): string => /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Renders a report in the canonical layout, so converted files can be imported again
+export const toCanonicalCsv = ({ metadata, transactions }: ReportData): string => {
+  const rows = [
+    ['Unidade:', metadata.unitName],
+    ['Tipo:', metadata.reportType],
+    CANONICAL_HEADER,
+    ...transactions.map(t => [
+      t.rawDate,
+      t.rawTime,
+      t.productName,
+      t.amount.toFixed(2).replace('.', ','),
+      t.paymentMethod,
+      TRANSACTION_KIND_LABELS[t.kind],
+      CATEGORY_LABELS[t.type],
+      t.machine
+    ])
+  ];
+  return rows.map(row => row.map(csvCell).join(';')).join('\n') + '\n';
+};
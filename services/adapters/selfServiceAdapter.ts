@@ -0,0 +1,43 @@
+import { FormatAdapter, cleanCell, findRecordWith, findSalesPeriod, startsWithTotal } from '../formatAdapter';
+
+const UNIT_LOOKUP_WINDOW = 50;
+
+// Self-service terminal export: "Operador:" line with the unit, then a header
+// with "Produtos", "Total Venda", "Data" and "Hora"
+export const selfServiceAdapter: FormatAdapter = {
+  id: 'SELF_SERVICE',
+  label: 'Self-Service',
+  reportType: 'SELF_SERVICE',
+  fieldRules: {
+    product: { synonyms: ['Produtos', 'Produto', 'Máquina', 'Maquina', 'Equipamento'], fallback: 6 },
+    amount: { synonyms: ['Total Venda', 'Valor Total', 'Valor', 'Total'], fallback: 9 },
+    date: { synonyms: ['Data', 'Data Venda', 'Data da Venda'], fallback: 10 },
+    time: { synonyms: ['Hora', 'Hora Venda', 'Horário', 'Horario'], fallback: 11 },
+    payment: { synonyms: ['Forma de Pagamento', 'Forma Pagamento', 'Pagamento', 'Meio de Pagamento'], fallback: 4 }
+  },
+
+  detect: (records) => findRecordWith(records, 'Produtos', 'Total Venda', 'Data') !== -1 ? 1 : 0,
+
+  findHeader: (records) => findRecordWith(records, 'Data', 'Hora'),
+
+  extractMetadata: (records) => {
+    let unitName: string | undefined;
+    for (let j = 0; j < Math.min(records.length, UNIT_LOOKUP_WINDOW); j++) {
+      if (records[j][0].trim().startsWith("Operador:") && records[j][1]) {
+        unitName = cleanCell(records[j][1]);
+        break;
+      }
+    }
+    return { unitName, period: findSalesPeriod(records) };
+  },
+
+  isSummaryRow: startsWithTotal,
+
+  mapRow: (cols, columns) => ({
+    product: cleanCell(cols[columns.product]),
+    amount: cleanCell(cols[columns.amount]) || "0",
+    date: cleanCell(cols[columns.date]),
+    time: cleanCell(cols[columns.time]) || "00:00:00",
+    payment: cleanCell(cols[columns.payment])
+  })
+};
@@ -0,0 +1,209 @@
+import { Transaction, TransactionKind } from '../types';
+import { countsAsRevenue, isSale } from './transactionKind';
+import { median } from './stats';
+import { formatCurrency } from './format';
+
+// Days and machines that stray from their own weekday baseline: a machine
+// whose ticket suddenly drops (price misconfigured), a day with far more
+// refunds than usual. Outright silences are the downtime log's job, so only
+// days with sales are scored here.
+
+export type AnomalyScope = 'DAY' | 'MACHINE';
+export type AnomalyMetric = 'REVENUE' | 'CYCLES' | 'TICKET' | 'REFUNDS';
+
+export interface Anomaly {
+  scope: AnomalyScope;
+  metric: AnomalyMetric;
+  businessDate: string; // dd/mm/yyyy
+  machineId: string | null; // Null for the whole day
+  value: number;
+  baseline: number; // Median of the other days (mean for refunds)
+  direction: 'HIGH' | 'LOW';
+  score: number; // Deviation in robust standard deviations; higher is stranger
+  explanation: string;
+}
+
+// Robust z-score a value must reach to be flagged
+const Z_THRESHOLD = 3.5;
+// Same-weekday days needed before the baseline stops mixing weekdays
+const MIN_WEEKDAY_SAMPLES = 3;
+// Days needed at all before anything is scored
+const MIN_SAMPLES = 5;
+// Sales a machine needs on a day for its ticket to mean something
+const MIN_TICKET_SALES = 3;
+
+// Minimum relative change per metric, so a very steady series isn't flagged
+// for a statistically clear but irrelevant move
+const MIN_CHANGE: Record<Exclude<AnomalyMetric, 'REFUNDS'>, number> = {
+  REVENUE: 0.3,
+  CYCLES: 0.5,
+  TICKET: 0.1
+};
+
+const WEEKDAY_PLURALS = ['domingos', 'segundas', 'terças', 'quartas', 'quintas', 'sextas', 'sábados'];
+const WEEKDAY_SHORT = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sáb'];
+
+const formatCount = (val: number) => val.toLocaleString('pt-BR', { maximumFractionDigits: 1 });
+const formatChange = (value: number, baseline: number) => {
+  const change = Math.round(((value - baseline) / baseline) * 100);
+  return `${change > 0 ? '+' : ''}${change}%`;
+};
+
+interface Cell {
+  businessDate: string;
+  weekday: number;
+  sales: number;
+  salesValue: number; // Before refunds, so a refund doesn't read as a price drop
+  revenue: number;
+  refunds: number;
+  refundValue: number;
+}
+
+interface Baseline {
+  values: number[];
+  sameWeekday: boolean;
+}
+
+// The other days of the same weekday, or every other day when the weekday is
+// too rare in the loaded range
+const baselineFor = (cells: Cell[], cell: Cell, pick: (c: Cell) => number): Baseline | null => {
+  const others = cells.filter(c => c !== cell);
+  const sameWeekday = others.filter(c => c.weekday === cell.weekday);
+  if (sameWeekday.length >= MIN_WEEKDAY_SAMPLES) return { values: sameWeekday.map(pick), sameWeekday: true };
+  if (others.length >= MIN_SAMPLES) return { values: others.map(pick), sameWeekday: false };
+  return null;
+};
+
+const comparedTo = (cell: Cell, baseline: Baseline) =>
+  baseline.sameWeekday ? `nas outras ${WEEKDAY_PLURALS[cell.weekday]}` : 'nos outros dias';
+
+const whereAndWhen = (cell: Cell, label: string | null) =>
+  `${label ? `${label} em` : 'Dia'} ${cell.businessDate.substring(0, 5)} (${WEEKDAY_SHORT[cell.weekday]})`;
+
+// Median and scaled median absolute deviation; the floor keeps a near-constant
+// series (fixed prices) from turning every cent into a huge score
+const scoreRobust = (
+  value: number,
+  baseline: number[],
+  floor: (center: number) => number
+): { center: number; score: number } => {
+  const center = median(baseline);
+  const spread = Math.max(1.4826 * median(baseline.map(v => Math.abs(v - center))), floor(center));
+  return { center, score: spread > 0 ? (value - center) / spread : 0 };
+};
+
+const buildCells = (transactions: Transaction[]): Cell[] => {
+  const cells = new Map<string, Cell>();
+  const cellOf = (t: Transaction) => {
+    const cell = cells.get(t.businessDate) || {
+      businessDate: t.businessDate, weekday: t.businessDayOfWeek, sales: 0, salesValue: 0, revenue: 0, refunds: 0, refundValue: 0
+    };
+    cells.set(t.businessDate, cell);
+    return cell;
+  };
+  transactions.forEach(t => {
+    if (isSale(t)) {
+      const cell = cellOf(t);
+      cell.sales++;
+      cell.salesValue += t.amount;
+    }
+    if (countsAsRevenue(t)) cellOf(t).revenue += t.amount;
+    if (t.kind === TransactionKind.REFUND) {
+      const cell = cellOf(t);
+      cell.refunds++;
+      cell.refundValue -= t.amount;
+    }
+  });
+  // Refund-only days have no sales to compare; silences belong to the downtime log
+  return Array.from(cells.values()).filter(c => c.sales > 0);
+};
+
+const robustAnomaly = (
+  cells: Cell[],
+  cell: Cell,
+  metric: Exclude<AnomalyMetric, 'REFUNDS'>,
+  scope: AnomalyScope,
+  machine: { id: string; label: string } | null,
+  pick: (c: Cell) => number,
+  floor: (center: number) => number,
+  format: (value: number) => string
+): Anomaly | null => {
+  const baseline = baselineFor(cells, cell, pick);
+  if (!baseline) return null;
+  const value = pick(cell);
+  const { center, score } = scoreRobust(value, baseline.values, floor);
+  if (center <= 0 || Math.abs(score) < Z_THRESHOLD || Math.abs(value - center) / center < MIN_CHANGE[metric]) return null;
+
+  const direction = value > center ? 'HIGH' : 'LOW';
+  const what = metric === 'TICKET' ? 'ticket médio' : metric === 'REVENUE' ? 'faturamento' : 'ciclos';
+  let explanation = `${whereAndWhen(cell, machine?.label ?? null)}: ${what} ${format(value)}, contra ${format(center)} ${comparedTo(cell, baseline)} (${formatChange(value, center)}).`;
+  if (metric === 'TICKET') {
+    explanation += direction === 'LOW'
+      ? ' Preço pode estar configurado errado ou houve promoção.'
+      : ' Verifique se o preço da máquina foi alterado.';
+  }
+  return {
+    scope,
+    metric,
+    businessDate: cell.businessDate,
+    machineId: machine?.id ?? null,
+    value,
+    baseline: center,
+    direction,
+    score: Math.abs(score),
+    explanation
+  };
+};
+
+// Refunds are rare counts, so the day is compared with a Poisson expectation
+const refundAnomaly = (cells: Cell[], cell: Cell): Anomaly | null => {
+  const baseline = baselineFor(cells, cell, c => c.refunds);
+  if (!baseline) return null;
+  const expected = baseline.values.reduce((sum, v) => sum + v, 0) / baseline.values.length;
+  const score = (cell.refunds - expected) / Math.sqrt(Math.max(expected, 0.5));
+  if (cell.refunds < 3 || cell.refunds < expected * 2 || score < Z_THRESHOLD) return null;
+  return {
+    scope: 'DAY',
+    metric: 'REFUNDS',
+    businessDate: cell.businessDate,
+    machineId: null,
+    value: cell.refunds,
+    baseline: expected,
+    direction: 'HIGH',
+    score,
+    explanation: `${whereAndWhen(cell, null)}: ${cell.refunds} estornos (${formatCurrency(cell.refundValue)}), contra ${formatCount(expected)} em média ${comparedTo(cell, baseline)}.`
+  };
+};
+
+// Every day and every machine-day scored against its own history; the
+// strangest first
+export const detectAnomalies = (transactions: Transaction[]): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  const push = (anomaly: Anomaly | null) => { if (anomaly) anomalies.push(anomaly); };
+
+  const days = buildCells(transactions);
+  days.forEach(cell => {
+    push(robustAnomaly(days, cell, 'REVENUE', 'DAY', null, c => c.revenue, center => center * 0.1, formatCurrency));
+    push(refundAnomaly(days, cell));
+  });
+
+  const byMachine = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    const list = byMachine.get(t.machineId);
+    if (list) list.push(t);
+    else byMachine.set(t.machineId, [t]);
+  });
+  byMachine.forEach(list => {
+    const machine = { id: list[0].machineId, label: list[0].machine };
+    const cells = buildCells(list);
+    const ticketCells = cells.filter(c => c.sales >= MIN_TICKET_SALES);
+    cells.forEach(cell => {
+      push(robustAnomaly(cells, cell, 'CYCLES', 'MACHINE', machine, c => c.sales, center => Math.max(Math.sqrt(center), 1), formatCount));
+    });
+    ticketCells.forEach(cell => {
+      push(robustAnomaly(ticketCells, cell, 'TICKET', 'MACHINE', machine, c => c.salesValue / c.sales, center => Math.max(center * 0.05, 0.5), formatCurrency));
+    });
+  });
+
+  return anomalies.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,75 @@
+import { Transaction } from '../types';
+
+// Business day start per unit, "HH:MM". Sales before the cutoff belong to the
+// previous operational day, so a 02:00 Saturday wash still counts as Friday night.
+export type BusinessDayCutoffs = Record<string, string>;
+
+export const DEFAULT_CUTOFF = '00:00';
+
+export const cutoffMinutes = (cutoff: string): number => {
+  const match = cutoff.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return 0;
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return minutes >= 0 && minutes < 24 * 60 ? minutes : 0;
+};
+
+// dd/mm/yyyy, the format of every businessDate
+export const formatDate = (d: Date): string =>
+  `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}/${d.getFullYear()}`;
+
+export const parseBusinessDate = (businessDate: string): Date => {
+  const [d, m, y] = businessDate.split('/').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Every calendar day from the earliest date to the latest, gaps included.
+// Reduced rather than spread: a large import overflows the call stack.
+export const eachBusinessDay = (dates: Date[]): Date[] => {
+  if (dates.length === 0) return [];
+  const first = new Date(dates.reduce((min, d) => Math.min(min, d.getTime()), Infinity));
+  const last = dates.reduce((max, d) => Math.max(max, d.getTime()), -Infinity);
+  const days: Date[] = [];
+  for (const day = new Date(first.getFullYear(), first.getMonth(), first.getDate()); day.getTime() <= last; day.setDate(day.getDate() + 1)) {
+    days.push(new Date(day));
+  }
+  return days;
+};
+
+// Operational date and weekday for a timestamp; clock hours are left untouched
+export const operationalDay = (date: Date, cutoff: string): { businessDate: string; businessDayOfWeek: number } => {
+  const minutes = cutoffMinutes(cutoff);
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (date.getHours() * 60 + date.getMinutes() < minutes) {
+    day.setDate(day.getDate() - 1);
+  }
+  return { businessDate: formatDate(day), businessDayOfWeek: day.getDay() };
+};
+
+export const applyBusinessDay = (transactions: Transaction[], cutoff: string): Transaction[] =>
+  transactions.map(t => {
+    const { businessDate, businessDayOfWeek } = operationalDay(t.date, cutoff);
+    return businessDate === t.businessDate ? t : { ...t, businessDate, businessDayOfWeek };
+  });
+
+export const cutoffForUnit = (cutoffs: BusinessDayCutoffs, unitName: string): string =>
+  cutoffs[unitName] || DEFAULT_CUTOFF;
+
+// --- Local persistence ---
+
+const STORAGE_KEY = 'lavepague.businessDayCutoffs';
+
+export const loadCutoffs = (): BusinessDayCutoffs => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (err) {
+    console.error(err);
+    return {};
+  }
+};
+
+export const saveCutoff = (unitName: string, cutoff: string): BusinessDayCutoffs => {
+  const next = { ...loadCutoffs(), [unitName]: cutoff };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
@@ -0,0 +1,131 @@
+import { CycleType, Transaction } from '../types';
+
+export type RuleMatch = 'CONTAINS' | 'EXACT' | 'REGEX';
+
+export interface ClassificationRule {
+  id: string;
+  match: RuleMatch;
+  pattern: string;
+  category: CycleType;
+}
+
+export const RULE_MATCH_LABELS: Record<RuleMatch, string> = {
+  CONTAINS: 'Contém',
+  EXACT: 'Igual a',
+  REGEX: 'Expressão regular'
+};
+
+export const CATEGORY_LABELS: Record<CycleType, string> = {
+  [CycleType.WASH]: 'Lavar',
+  [CycleType.DRY]: 'Secar',
+  [CycleType.COMBO]: 'Lavar + Secar',
+  [CycleType.SUPPLIES]: 'Insumos',
+  [CycleType.SERVICE_BY_WEIGHT]: 'Serviço por peso',
+  [CycleType.UNKNOWN]: 'Outros'
+};
+
+export const CATEGORY_COLORS: Record<CycleType, string> = {
+  [CycleType.WASH]: '#3b82f6',
+  [CycleType.DRY]: '#f97316',
+  [CycleType.COMBO]: '#8b5cf6',
+  [CycleType.SUPPLIES]: '#14b8a6',
+  [CycleType.SERVICE_BY_WEIGHT]: '#eab308',
+  [CycleType.UNKNOWN]: '#94a3b8'
+};
+
+export const CATEGORY_ORDER: CycleType[] = [
+  CycleType.WASH,
+  CycleType.DRY,
+  CycleType.COMBO,
+  CycleType.SERVICE_BY_WEIGHT,
+  CycleType.SUPPLIES,
+  CycleType.UNKNOWN
+];
+
+// A combo is a wash and a dry sold together, so it feeds both sides of the split
+export const countsAsWash = (type: CycleType): boolean => type === CycleType.WASH || type === CycleType.COMBO;
+export const countsAsDry = (type: CycleType): boolean => type === CycleType.DRY || type === CycleType.COMBO;
+
+// Evaluated top to bottom; the first matching rule wins. The "lava" / "seca"
+// rules reproduce the original check; the two after them catch the machine
+// codes the registry parses ("LAV01", "SEC 2", "WASH3").
+export const DEFAULT_RULES: ClassificationRule[] = [
+  { id: 'default-combo', match: 'REGEX', pattern: 'lava.*seca|seca.*lava|combo', category: CycleType.COMBO },
+  { id: 'default-fold', match: 'CONTAINS', pattern: 'dobra', category: CycleType.SERVICE_BY_WEIGHT },
+  { id: 'default-kg', match: 'REGEX', pattern: '(por|/)\\s*(kg|quilo)', category: CycleType.SERVICE_BY_WEIGHT },
+  { id: 'default-detergent', match: 'CONTAINS', pattern: 'detergente', category: CycleType.SUPPLIES },
+  { id: 'default-soap', match: 'CONTAINS', pattern: 'sabao', category: CycleType.SUPPLIES },
+  { id: 'default-softener', match: 'CONTAINS', pattern: 'amaciante', category: CycleType.SUPPLIES },
+  { id: 'default-bleach', match: 'CONTAINS', pattern: 'alvejante', category: CycleType.SUPPLIES },
+  { id: 'default-wash', match: 'CONTAINS', pattern: 'lava', category: CycleType.WASH },
+  { id: 'default-dry', match: 'CONTAINS', pattern: 'seca', category: CycleType.DRY },
+  { id: 'default-wash-code', match: 'REGEX', pattern: '(^|[^a-z])(lav|wash)', category: CycleType.WASH },
+  { id: 'default-dry-code', match: 'REGEX', pattern: '(^|[^a-z])(sec|dry)', category: CycleType.DRY }
+];
+
+const stripAccents = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const normalize = (value: string): string => stripAccents(value).toLowerCase().trim();
+
+// Returns null for an invalid regular expression so the editor can flag it
+export const compileRule = (rule: ClassificationRule): ((productName: string) => boolean) | null => {
+  const pattern = normalize(rule.pattern);
+  if (!pattern) return null;
+  switch (rule.match) {
+    case 'EXACT':
+      return (name) => normalize(name) === pattern;
+    case 'CONTAINS':
+      return (name) => normalize(name).includes(pattern);
+    case 'REGEX':
+      try {
+        // Case is left to the 'i' flag: lowercasing would turn escapes like \D into \d
+        const regex = new RegExp(stripAccents(rule.pattern.trim()), 'i');
+        return (name) => regex.test(normalize(name));
+      } catch {
+        return null;
+      }
+  }
+};
+
+export const createClassifier = (rules: ClassificationRule[] = DEFAULT_RULES): ((productName: string) => CycleType) => {
+  const compiled = rules
+    .map(rule => ({ test: compileRule(rule), category: rule.category }))
+    .filter((r): r is { test: (name: string) => boolean; category: CycleType } => r.test !== null);
+
+  return (productName: string) => {
+    if (!productName) return CycleType.UNKNOWN;
+    const hit = compiled.find(r => r.test(productName));
+    return hit ? hit.category : CycleType.UNKNOWN;
+  };
+};
+
+// Re-applies the rules to already parsed transactions, so editing the table
+// updates the dashboards without reading the files again
+export const reclassify = (transactions: Transaction[], rules: ClassificationRule[]): Transaction[] => {
+  const classify = createClassifier(rules);
+  return transactions.map(t => {
+    const type = classify(t.productName);
+    return type === t.type ? t : { ...t, type };
+  });
+};
+
+// --- Local persistence ---
+
+const STORAGE_KEY = 'lavepague.classificationRules';
+
+export const loadRules = (): ClassificationRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_RULES;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : DEFAULT_RULES;
+  } catch (err) {
+    console.error(err);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: ClassificationRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
@@ -0,0 +1,156 @@
+export type MappingField = 'date' | 'time' | 'product' | 'amount' | 'payment';
+
+export type ColumnIndexMap = Record<MappingField, number>;
+
+export const MAPPING_FIELDS: MappingField[] = ['date', 'time', 'product', 'amount', 'payment'];
+
+export const MAPPING_FIELD_LABELS: Record<MappingField, string> = {
+  date: 'Data',
+  time: 'Hora',
+  product: 'Produto',
+  amount: 'Valor',
+  payment: 'Pagamento'
+};
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  format: string; // Format adapter id
+  headerSignature: string;
+  columns: ColumnIndexMap;
+  createdAt: string; // ISO date
+}
+
+export type MappingSource = 'PROFILE' | 'MANUAL' | 'HEADER' | 'DEFAULT';
+
+export interface ResolvedMapping {
+  columns: ColumnIndexMap;
+  source: MappingSource;
+  profileName?: string;
+  unresolved: MappingField[]; // Fields that fell back to the legacy position
+}
+
+export interface FieldRule {
+  synonyms: string[];
+  fallback: number; // Legacy fixed position, used only when no header cell matches any synonym
+}
+
+// Supplied by each format adapter
+export type FieldRules = Record<MappingField, FieldRule>;
+
+export const normalizeHeaderCell = (cell: string): string =>
+  cell
+    .replace(/['"]/g, '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// A signature identifies a header layout regardless of quoting, accents or case
+export const buildHeaderSignature = (headerCols: string[]): string =>
+  headerCols.map(normalizeHeaderCell).join('|');
+
+// Optional column carrying the sale status (e.g. "Cancelada", "Estornada"); -1 when absent
+const STATUS_SYNONYMS = ['Status', 'Situação', 'Situacao', 'Status da Venda', 'Estado'];
+
+export const findStatusColumn = (headerCols: string[]): number => {
+  const normalized = headerCols.map(normalizeHeaderCell);
+  for (const synonym of STATUS_SYNONYMS.map(normalizeHeaderCell)) {
+    const idx = normalized.indexOf(synonym);
+    if (idx !== -1) return idx;
+  }
+  return -1;
+};
+
+export const requiredColumnCount = (columns: ColumnIndexMap): number =>
+  Math.max(...MAPPING_FIELDS.map(f => columns[f])) + 1;
+
+export const resolveMapping = (
+  headerCols: string[],
+  format: string,
+  rules: FieldRules,
+  profiles: ColumnMappingProfile[] = []
+): ResolvedMapping => {
+  const signature = buildHeaderSignature(headerCols);
+  const profile = profiles.find(p => p.format === format && p.headerSignature === signature);
+  if (profile) {
+    return { columns: { ...profile.columns }, source: 'PROFILE', profileName: profile.name, unresolved: [] };
+  }
+
+  const normalized = headerCols.map(normalizeHeaderCell);
+  const columns = {} as ColumnIndexMap;
+  const unresolved: MappingField[] = [];
+
+  MAPPING_FIELDS.forEach(field => {
+    const rule = rules[field];
+    const synonyms = rule.synonyms.map(normalizeHeaderCell);
+    // Keep the legacy position while its header still carries a known name,
+    // so files that parsed correctly before keep parsing the same way
+    let found = synonyms.includes(normalized[rule.fallback]) ? rule.fallback : -1;
+    // Otherwise synonyms are ordered by priority: the first one present in the header wins
+    for (let k = 0; found === -1 && k < synonyms.length; k++) {
+      found = normalized.indexOf(synonyms[k]);
+    }
+    if (found === -1) {
+      unresolved.push(field);
+      found = rule.fallback;
+    }
+    columns[field] = found;
+  });
+
+  return {
+    columns,
+    source: headerCols.length === 0 || unresolved.length === MAPPING_FIELDS.length ? 'DEFAULT' : 'HEADER',
+    unresolved
+  };
+};
+
+// --- Local persistence ---
+
+const STORAGE_KEY = 'lavepague.columnProfiles';
+
+export const loadProfiles = (): ColumnMappingProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    // Profiles saved before format adapters were keyed by report type, which matches the vendor adapter ids
+    return Array.isArray(parsed) ? parsed.map(p => ({ ...p, format: p.format ?? p.reportType })) : [];
+  } catch (err) {
+    console.error(err);
+    return [];
+  }
+};
+
+const persistProfiles = (profiles: ColumnMappingProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const saveProfile = (
+  name: string,
+  format: string,
+  headerCols: string[],
+  columns: ColumnIndexMap
+): ColumnMappingProfile[] => {
+  const headerSignature = buildHeaderSignature(headerCols);
+  // One profile per header layout: saving again replaces the previous one
+  const others = loadProfiles().filter(p => !(p.format === format && p.headerSignature === headerSignature));
+  const profile: ColumnMappingProfile = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    format,
+    headerSignature,
+    columns: { ...columns },
+    createdAt: new Date().toISOString()
+  };
+  const next = [...others, profile];
+  persistProfiles(next);
+  return next;
+};
+
+export const deleteProfile = (id: string): ColumnMappingProfile[] => {
+  const next = loadProfiles().filter(p => p.id !== id);
+  persistProfiles(next);
+  return next;
+};
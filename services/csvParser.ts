@@ -1,10 +1,24 @@
-import { Transaction, CycleType, DashboardMetadata } from '../types';
+import { Transaction, TransactionKind, CycleType, DashboardMetadata } from '../types';
+import { ClassificationRule, createClassifier, DEFAULT_RULES } from './classificationRules';
+import { parseMachineName } from './machineRegistry';
+import { detectTransactionKind } from './transactionKind';
+import { ColumnIndexMap, ColumnMappingProfile, ResolvedMapping, resolveMapping, requiredColumnCount, findStatusColumn } from './columnMapping';
+import { createCsvTokenizer, CsvDelimiter, CsvRecord, tokenizeCsv } from './csvTokenizer';
+import { FormatAdapter, SkipReason, cleanCell, findRecordWith, DETECTION_WINDOW } from './formatAdapter';
+import { detectAdapter, getAdapter } from './formatRegistry';
+import { eachBusinessDay, formatDate } from './businessDay';
+
+export { SkipReason, SKIP_REASON_LABELS } from './formatAdapter';
 
 export const parseCurrency = (value: string): number => {
   if (!value) return 0;
   // Handle "R$ 15,90", "15,9", "15.9", "15"
   // Remove quotes, R$, whitespace
   let clean = value.replace(/['"]/g, '').replace('R$', '').trim();
+
+  // Negatives come as "-R$ 15,90", "R$ -15,90", "15,90-" or accounting-style "(15,90)"
+  const negative = /^\(.*\)$/.test(clean) || clean.startsWith('-') || clean.endsWith('-');
+  clean = clean.replace(/[()\-\s]/g, '');
   
   // Remove thousands separator (.) if present along with decimal (,)
   // Example: 1.200,50 -> 1200,50
@@ -16,170 +30,165 @@ export const parseCurrency = (value: string): number => {
   clean = clean.replace(',', '.');
   
   const num = parseFloat(clean);
-  return isNaN(num) ? 0 : num;
+  if (isNaN(num)) return 0;
+  return negative ? -num : num;
 };
 
-export const determineCycleType = (productName: string): CycleType => {
-  if (!productName) return CycleType.UNKNOWN;
-  const lower = productName.toLowerCase();
-  // Check for explicit "LAVA" or "SECA" anywhere in the string
-  if (lower.includes('lava')) return CycleType.WASH;
-  if (lower.includes('seca')) return CycleType.DRY;
-  return CycleType.UNKNOWN;
-};
+// First matching rule wins; the default rules keep the original "lava" / "seca" check
+export const determineCycleType = (productName: string, rules: ClassificationRule[] = DEFAULT_RULES): CycleType =>
+  createClassifier(rules)(productName);
+
+// Ids of the built-in adapters; any registered adapter id is a valid format
+export const CsvFormat = {
+  SELF_SERVICE: 'SELF_SERVICE',
+  ATTENDANT: 'ATTENDANT',
+  CANONICAL: 'CANONICAL',
+  UNKNOWN: 'UNKNOWN'
+} as const;
+
+export type CsvFormat = string;
+
+export interface SkippedRow {
+  lineNumber: number; // 1-based line number in the original file
+  raw: string;
+}
+
+export interface ParseDiagnostics {
+  format: CsvFormat;
+  delimiter: CsvDelimiter | null; // null when the file was empty
+  headerIndex: number; // 1-based line number of the header row, -1 if not found
+  rowsRead: number; // Non-empty lines after the header
+  rowsAccepted: number;
+  skipped: Partial<Record<SkipReason, SkippedRow[]>>;
+  warnings: string[];
+  headerColumns: string[];
+  mapping: ResolvedMapping | null; // null when the format is unknown
+  previewRows: string[][]; // First data rows, split into columns, for the mapping editor
+}
+
+export interface ParseOptions {
+  profiles?: ColumnMappingProfile[]; // Saved profiles, matched by header signature
+  mapping?: ColumnIndexMap; // Manual assignment, takes precedence over profiles
+  format?: CsvFormat; // Forces a format adapter instead of detecting it
+  reportType?: DashboardMetadata['reportType']; // Overrides the dashboard the adapter feeds
+  rules?: ClassificationRule[]; // Product classification rules, defaults to DEFAULT_RULES
+  delimiter?: CsvDelimiter; // Skips delimiter detection (spreadsheets always produce commas)
+}
+
+const PREVIEW_ROW_COUNT = 8;
+
+// Content-based identity: the same sale gets the same key in every export that
+// contains it. Identical sales inside one file are told apart by an occurrence suffix.
+export const buildTransactionKey = (
+  rawDate: string,
+  rawTime: string,
+  machine: string,
+  amount: number,
+  paymentMethod: string
+): string =>
+  [rawDate, rawTime, machine.trim().toUpperCase(), amount.toFixed(2), paymentMethod.trim().toUpperCase()].join('|');
 
 export interface ParseResult {
   metadata: DashboardMetadata;
   transactions: Transaction[];
+  diagnostics: ParseDiagnostics;
 }
 
-enum CsvFormat {
-  SELF_SERVICE = 'SELF_SERVICE',
-  ATTENDANT = 'ATTENDANT',
-  UNKNOWN = 'UNKNOWN'
-}
+export const countSkipped = (diagnostics: ParseDiagnostics): number =>
+  Object.values(diagnostics.skipped).reduce((sum, rows) => sum + (rows?.length || 0), 0);
 
-const splitCsvLine = (line: string): string[] => {
-  // Robust CSV Split: splits by comma ONLY if not inside quotes
-  return line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/);
-};
+const UNKNOWN_PERIOD = "Período não identificado";
+// Unit of exports that don't name one, as attendant reports often don't
+export const UNKNOWN_UNIT = "Unidade Desconhecida";
 
-const isLineEmpty = (line: string): boolean => {
-  if (!line || !line.trim()) return true;
-  // Check if line is just delimiters like ",,,,,,,,,"
-  const stripped = line.replace(/,/g, '').trim();
-  return stripped.length === 0;
-};
+// Records with no content at all, or only empty cells like ",,,,,,,,,"
+const isRecordEmpty = (fields: string[]): boolean => fields.every(f => !f.trim());
 
-const detectFormat = (lines: string[]): CsvFormat => {
-  // Scan lines looking for specific headers, ignoring garbage
-  const limit = Math.min(lines.length, 5000);
-  for (let i = 0; i < limit; i++) {
-    const line = lines[i];
-    // Self Service Signature: "Produtos" and "Total Venda" and "Data"
-    if (line.includes('Produtos') && line.includes('Total Venda') && line.includes('Data')) {
-      return CsvFormat.SELF_SERVICE;
-    }
-    // Attendant Signature: "Nome Terminal" and "Venda (R$)" and "Data"
-    if (line.includes('Nome Terminal') && line.includes('Venda (R$)') && line.includes('Data')) {
-      return CsvFormat.ATTENDANT;
-    }
-  }
-  return CsvFormat.UNKNOWN;
+// Format detection on raw text, for callers that only need to classify a file
+export const detectTextFormat = (csvText: string, delimiter?: CsvDelimiter): CsvFormat => {
+  const records = tokenizeCsv(csvText, delimiter).map(r => r.fields).filter(f => !isRecordEmpty(f));
+  return detectAdapter(records)?.id || CsvFormat.UNKNOWN;
 };
 
-const extractPeriod = (lines: string[]): string => {
-  const limit = Math.min(lines.length, 5000);
-  for (let i = 0; i < limit; i++) {
-    if (lines[i].includes("Vendas de")) {
-      const parts = lines[i].split(",");
-      const periodPart = parts.find(p => p.includes("Vendas de"));
-      if (periodPart) {
-        return periodPart.replace("Vendas de ", "").replace(" ate ", " - ").replace(/['"]/g, "").trim();
-      }
-    }
-  }
-  return "Período não identificado";
-};
+export interface CsvStreamParser {
+  write: (chunk: string) => void;
+  end: () => ParseResult;
+  rowsRead: () => number;
+}
 
-export const parseCSV = (csvText: string): ParseResult => {
-  // 1. Aggressive Pre-cleaning
-  // Remove empty lines and lines that are just commas before doing anything
-  const rawLines = csvText.split(/\r\n|\n/);
-  const lines = rawLines.filter(line => !isLineEmpty(line));
+// Incremental parser: text can be fed in arbitrary chunks. The first lines are
+// buffered until the header and report signature are known, then every row is
+// processed as soon as it arrives, so memory stays flat on large exports.
+export const createCsvParser = (options: ParseOptions = {}): CsvStreamParser => {
+  // Detection buffer of non-empty records, in file order
+  let buffered: CsvRecord[] = [];
+  let ready = false;
 
-  const format = detectFormat(lines);
-  const period = extractPeriod(lines);
+  let adapter: FormatAdapter | null = null;
+  let format: CsvFormat = CsvFormat.UNKNOWN;
+  let period: string | undefined;
+  let reportType: DashboardMetadata['reportType'] | undefined;
+  let columns: ColumnIndexMap | undefined;
+  let minColumns = 0;
+  let statusIndex = -1;
+  let unitName = UNKNOWN_UNIT;
   const transactions: Transaction[] = [];
-  let unitName = "Unidade Desconhecida";
+  const occurrences = new Map<string, number>();
+  const classify = createClassifier(options.rules);
 
-  // Determine Header Row Index dynamically
-  let headerIndex = -1;
-  
-  for (let i = 0; i < lines.length; i++) {
-    // Strong signal for header row in both formats
-    if (lines[i].includes('Data') && lines[i].includes('Hora')) {
-      headerIndex = i;
-      break;
-    }
-  }
-
-  // If we couldn't find a header but detected a format, try to guess or fail gracefully
-  if (headerIndex === -1 && format !== CsvFormat.UNKNOWN) {
-     console.warn("Format detected but header row not found. Parsing might fail.");
-  }
+  const diagnostics: ParseDiagnostics = {
+    format,
+    delimiter: null,
+    headerIndex: -1,
+    rowsRead: 0,
+    rowsAccepted: 0,
+    skipped: {},
+    warnings: [],
+    headerColumns: [],
+    mapping: null,
+    previewRows: []
+  };
 
-  const startIndex = headerIndex === -1 ? 0 : headerIndex + 1;
+  const skip = (reason: SkipReason, lineNumber: number, raw: string) => {
+    const bucket = diagnostics.skipped[reason] || (diagnostics.skipped[reason] = []);
+    bucket.push({ lineNumber, raw });
+  };
 
-  for (let i = startIndex; i < lines.length; i++) {
-    const line = lines[i].trim();
+  const processRow = ({ fields: cols, raw: rawLine, lineNumber }: CsvRecord) => {
+    diagnostics.rowsRead++;
     
-    if (line.startsWith("Total")) continue;
-
-    const cols = splitCsvLine(line);
-
-    // --- Parsing Logic Based on Format ---
-    let machineRaw = "";
-    let amountRaw = "";
-    let dateRaw = "";
-    let timeRaw = "";
-    let paymentRaw = "";
-
-    if (format === CsvFormat.SELF_SERVICE) {
-      // Self Service Mapping
-      if (cols.length < 12) continue;
-      machineRaw = cols[6]?.replace(/['"]/g, '').trim() || "";
-      amountRaw = cols[9]?.replace(/['"]/g, '').trim() || "0";
-      dateRaw = cols[10]?.replace(/['"]/g, '').trim() || "";
-      timeRaw = cols[11]?.replace(/['"]/g, '').trim() || "00:00:00";
-      paymentRaw = cols[4]?.replace(/['"]/g, '').trim() || "";
-
-      if (unitName === "Unidade Desconhecida" && lines.length > 0) {
-        for(let j=0; j<Math.min(lines.length, 50); j++) {
-            if (lines[j].startsWith("Operador:")) {
-                const parts = splitCsvLine(lines[j]);
-                if (parts[1]) {
-                    unitName = parts[1].replace(/['"]/g, "").trim();
-                    break;
-                }
-            }
-        }
-      }
-
-    } else if (format === CsvFormat.ATTENDANT) {
-      // Attendant Mapping
-      if (cols.length < 14) continue;
-      
-      // Valid row check: must have a date in col 12
-      if (!cols[12] || !cols[12].includes('/')) continue;
-
-      machineRaw = cols[4]?.replace(/['"]/g, '').trim() || "";
-      amountRaw = cols[8]?.replace(/['"]/g, '').trim() || "0";
-      dateRaw = cols[12]?.replace(/['"]/g, '').trim() || "";
-      timeRaw = cols[13]?.replace(/['"]/g, '').trim() || "00:00:00";
-      paymentRaw = cols[5]?.replace(/['"]/g, '').trim() || "";
-
-      // Extract Unit Name from the first valid data row (Col 0)
-      if (unitName === "Unidade Desconhecida" && cols[0]) {
-        const potentialName = cols[0].replace(/['"]/g, "").trim();
-        if (potentialName && potentialName.toLowerCase() !== "cliente") {
-            unitName = potentialName;
-        }
-      }
-    } else {
-      continue;
+    if (!adapter || !columns) { skip(SkipReason.UNKNOWN_FORMAT, lineNumber, rawLine); return; }
+    if (adapter.isSummaryRow?.(cols)) { skip(SkipReason.TOTAL_LINE, lineNumber, rawLine); return; }
+    if (cols.length < minColumns) { skip(SkipReason.COLUMN_COUNT, lineNumber, rawLine); return; }
+
+    const row = adapter.mapRow(cols, columns);
+    if (typeof row === 'string') { skip(row, lineNumber, rawLine); return; }
+
+    const { product: machineRaw, amount: amountRaw, date: dateCell, time: timeCell, payment: paymentRaw } = row;
+    // Layouts with the unit on every row: the first valid data row names it
+    if (unitName === UNKNOWN_UNIT && row.unitName) {
+      unitName = row.unitName;
     }
 
     // --- Common Processing ---
-    if (!dateRaw || !dateRaw.match(/^\d{2}\/\d{2}\/\d{4}$/)) continue;
+    if (!dateCell) { skip(SkipReason.MISSING_DATE, lineNumber, rawLine); return; }
+    // Spreadsheet datetime cells carry the time after the date; it stands in
+    // when the time column is empty (adapters fill that with midnight)
+    const [dateRaw, embeddedTime] = dateCell.split(/\s+/);
+    const timeRaw = embeddedTime && timeCell === '00:00:00' ? embeddedTime : timeCell;
+    if (!dateRaw.match(/^\d{2}\/\d{2}\/\d{4}$/)) { skip(SkipReason.INVALID_DATE, lineNumber, rawLine); return; }
     
-    const amount = parseCurrency(amountRaw);
-    const cycleType = determineCycleType(machineRaw);
+    // Refunds are always stored negative so revenue sums net them out
+    const statusRaw = statusIndex !== -1 ? cleanCell(cols[statusIndex]) : "";
+    const parsedAmount = parseCurrency(amountRaw);
+    const kind = detectTransactionKind(parsedAmount, [statusRaw, machineRaw, paymentRaw]);
+    const amount = kind === TransactionKind.REFUND ? -Math.abs(parsedAmount) : parsedAmount;
+    const cycleType = classify(machineRaw);
     
     const dateParts = dateRaw.split('/');
     const timeParts = timeRaw ? timeRaw.split(':') : ['00', '00', '00'];
     
-    if (dateParts.length !== 3) continue;
+    if (dateParts.length !== 3) { skip(SkipReason.INVALID_DATE, lineNumber, rawLine); return; }
 
     const jsDate = new Date(
       parseInt(dateParts[2], 10),
@@ -190,26 +199,129 @@ export const parseCSV = (csvText: string): ParseResult => {
       parseInt(timeParts[2] || '0', 10)
     );
 
+    const key = buildTransactionKey(dateRaw, timeRaw, machineRaw, amount, paymentRaw);
+    const occurrence = occurrences.get(key) || 0;
+    occurrences.set(key, occurrence + 1);
+
     transactions.push({
-      id: `${i}-${dateRaw}-${timeRaw}-${machineRaw}`,
+      id: `${key}#${occurrence}`,
       date: jsDate,
       rawDate: dateRaw,
       rawTime: timeRaw,
       productName: machineRaw,
       type: cycleType,
+      kind,
       amount: amount,
       paymentMethod: paymentRaw,
-      machine: machineRaw, 
-      dayOfWeek: jsDate.getDay()
+      machine: machineRaw,
+      machineId: parseMachineName(machineRaw).id,
+      dayOfWeek: jsDate.getDay(),
+      // Calendar day until a business-day cutoff is applied (see businessDay.ts)
+      businessDate: dateRaw,
+      businessDayOfWeek: jsDate.getDay()
     });
-  }
+    diagnostics.rowsAccepted++;
+  };
+
+  // Runs once enough of the file is buffered: picks the format adapter, then header,
+  // metadata and mapping, and drains the buffered data rows
+  const setup = () => {
+    ready = true;
+    const records = buffered.map(r => r.fields);
+    adapter = options.format ? getAdapter(options.format) || null : detectAdapter(records);
+    format = adapter ? adapter.id : CsvFormat.UNKNOWN;
+    diagnostics.format = format;
+    diagnostics.delimiter = tokenizer.delimiter();
+
+    // Without an adapter, the usual "Data"/"Hora" header still feeds the mapping editor
+    const headerIndex = adapter ? adapter.findHeader(records) : findRecordWith(records, 'Data', 'Hora');
+
+    // If we couldn't find a header but detected a format, try to guess or fail gracefully
+    if (headerIndex === -1 && adapter) {
+       diagnostics.warnings.push("Formato detectado, mas a linha de cabeçalho não foi encontrada.");
+    }
+    if (!adapter) {
+       diagnostics.warnings.push("Nenhuma assinatura de relatório conhecida foi encontrada no arquivo.");
+    }
+    diagnostics.headerIndex = headerIndex === -1 ? -1 : buffered[headerIndex].lineNumber;
+
+    const startIndex = headerIndex === -1 ? 0 : headerIndex + 1;
+
+    // Resolve which column holds each field: manual > saved profile > header names > legacy positions
+    const headerCols = headerIndex === -1 ? [] : records[headerIndex].map(cleanCell);
+    diagnostics.headerColumns = headerCols;
+    diagnostics.previewRows = records
+      .slice(startIndex, startIndex + PREVIEW_ROW_COUNT)
+      .map(fields => fields.map(cleanCell));
+
+    if (adapter) {
+      diagnostics.mapping = options.mapping
+        ? { columns: { ...options.mapping }, source: 'MANUAL', unresolved: [] }
+        : resolveMapping(headerCols, adapter.id, adapter.fieldRules, options.profiles);
+
+      const metadata = adapter.extractMetadata(records);
+      period = metadata.period;
+      reportType = metadata.reportType;
+      if (metadata.unitName) unitName = metadata.unitName;
+    }
+    columns = diagnostics.mapping?.columns;
+    statusIndex = findStatusColumn(headerCols);
+    minColumns = columns ? requiredColumnCount(columns) : 0;
 
-  return { 
-    metadata: { 
-      unitName, 
-      period,
-      reportType: format === CsvFormat.ATTENDANT ? 'ATTENDANT' : 'SELF_SERVICE'
-    }, 
-    transactions 
+    for (let i = startIndex; i < buffered.length; i++) {
+      processRow(buffered[i]);
+    }
+    buffered = [];
+  };
+
+  const pushRecord = (record: CsvRecord) => {
+    // Aggressive pre-cleaning: skip empty lines and lines that are just delimiters
+    if (isRecordEmpty(record.fields)) return;
+
+    if (ready) {
+      processRow(record);
+      return;
+    }
+
+    // Adapters look for their signature within the detection window; the extra
+    // records give a header near its end some preview rows
+    buffered.push(record);
+    if (buffered.length >= DETECTION_WINDOW + PREVIEW_ROW_COUNT) {
+      setup();
+    }
   };
-};
\ No newline at end of file
+
+  // Files without a period title (e.g. the canonical layout) show the range they cover
+  const resolvePeriod = (): string => {
+    if (period) return period;
+    if (transactions.length === 0) return UNKNOWN_PERIOD;
+    const days = eachBusinessDay(transactions.map(t => t.date));
+    return `${formatDate(days[0])} - ${formatDate(days[days.length - 1])}`;
+  };
+
+  const tokenizer = createCsvTokenizer(pushRecord, options.delimiter);
+
+  return {
+    write: tokenizer.write,
+    end: () => {
+      tokenizer.end();
+      if (!ready) setup();
+      return { 
+        metadata: { 
+          unitName, 
+          period: resolvePeriod(),
+          reportType: options.reportType || reportType || adapter?.reportType || 'SELF_SERVICE'
+        }, 
+        transactions,
+        diagnostics
+      };
+    },
+    rowsRead: () => diagnostics.rowsRead
+  };
+};
+
+export const parseCSV = (csvText: string, options: ParseOptions = {}): ParseResult => {
+  const parser = createCsvParser(options);
+  parser.write(csvText);
+  return parser.end();
+};
@@ -0,0 +1,180 @@
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Vírgula',
+  ';': 'Ponto e vírgula',
+  '\t': 'Tabulação'
+};
+
+const CANDIDATES: CsvDelimiter[] = [',', ';', '\t'];
+
+export interface CsvRecord {
+  fields: string[]; // Unquoted values, "" escapes resolved
+  raw: string; // Source text of the record, without the line terminator
+  lineNumber: number; // 1-based line where the record starts
+}
+
+export interface CsvTokenizer {
+  write: (chunk: string) => void;
+  end: () => void;
+  delimiter: () => CsvDelimiter | null; // Known once enough text was seen to sniff it
+}
+
+// Text buffered before the delimiter is guessed
+const SNIFF_SIZE = 64 * 1024;
+
+// Counts candidates outside quotes and picks the most frequent. pt-BR Excel writes
+// decimals unquoted ("18,00") with ";" separators, which still gives ";" far more hits.
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  for (let i = 0; i < sample.length; i++) {
+    const ch = sample[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === ',' || ch === ';' || ch === '\t')) counts[ch]++;
+  }
+  return CANDIDATES.reduce((best, c) => counts[c] > counts[best] ? c : best, CANDIDATES[0]);
+};
+
+// Streaming RFC 4180 tokenizer. Chunks may split a record, a quoted field or a
+// CRLF anywhere; state carries over between writes. Quotes are only special at
+// the start of a field, stray quotes elsewhere are kept as text.
+export const createCsvTokenizer = (
+  onRecord: (record: CsvRecord) => void,
+  forcedDelimiter?: CsvDelimiter
+): CsvTokenizer => {
+  let delimiter: CsvDelimiter | null = forcedDelimiter || null;
+  let pending = '';
+  let bomChecked = false;
+
+  let fields: string[] = [];
+  let field = '';
+  let raw = '';
+  let atFieldStart = true;
+  let inQuotes = false;
+  let afterQuote = false; // Just saw a quote inside a quoted field: either closing or the first half of ""
+  let skipLF = false; // Previous record ended on \r; a following \n belongs to it
+  let line = 1;
+  let recordLine = 1;
+
+  const consume = (input: string) => {
+    let text = input;
+    if (!bomChecked && text.length > 0) {
+      bomChecked = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    let segStart = 0; // Start of the part of the current field not yet copied
+    let rawStart = 0;
+
+    const endField = (i: number) => {
+      field += text.slice(segStart, i);
+      fields.push(field);
+      field = '';
+      segStart = i + 1;
+      atFieldStart = true;
+    };
+
+    const endRecord = (i: number) => {
+      raw += text.slice(rawStart, i);
+      onRecord({ fields, raw, lineNumber: recordLine });
+      fields = [];
+      raw = '';
+      rawStart = i + 1;
+      recordLine = line;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (skipLF) {
+        skipLF = false;
+        if (ch === '\n') {
+          segStart = rawStart = i + 1;
+          continue;
+        }
+      }
+
+      if (afterQuote) {
+        afterQuote = false;
+        if (ch === '"') {
+          // Escaped quote: keep one and stay inside the quoted field
+          field += '"';
+          segStart = i + 1;
+          inQuotes = true;
+          continue;
+        }
+      }
+
+      if (inQuotes) {
+        if (ch === '"') {
+          field += text.slice(segStart, i);
+          segStart = i + 1;
+          inQuotes = false;
+          afterQuote = true;
+        } else if (ch === '\n') {
+          line++;
+        }
+        continue;
+      }
+
+      if (ch === '"' && atFieldStart) {
+        inQuotes = true;
+        atFieldStart = false;
+        segStart = i + 1;
+      } else if (ch === delimiter) {
+        endField(i);
+      } else if (ch === '\n' || ch === '\r') {
+        line++;
+        endField(i);
+        endRecord(i);
+        skipLF = ch === '\r';
+      } else {
+        atFieldStart = false;
+      }
+    }
+
+    field += text.slice(segStart);
+    raw += text.slice(rawStart);
+  };
+
+  return {
+    write: (chunk: string) => {
+      if (delimiter) {
+        consume(chunk);
+        return;
+      }
+      pending += chunk;
+      if (pending.length >= SNIFF_SIZE) {
+        delimiter = detectDelimiter(pending);
+        consume(pending);
+        pending = '';
+      }
+    },
+    end: () => {
+      if (!delimiter) {
+        delimiter = detectDelimiter(pending);
+        consume(pending);
+        pending = '';
+      }
+      // Last record without a trailing newline
+      if (fields.length > 0 || field !== '' || raw !== '') {
+        fields.push(field);
+        onRecord({ fields, raw, lineNumber: recordLine });
+        fields = [];
+        field = '';
+        raw = '';
+      }
+    },
+    delimiter: () => delimiter
+  };
+};
+
+// Whole-text convenience wrapper
+export const tokenizeCsv = (text: string, delimiter?: CsvDelimiter): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  const tokenizer = createCsvTokenizer(record => records.push(record), delimiter);
+  tokenizer.write(text);
+  tokenizer.end();
+  return records;
+};
@@ -0,0 +1,131 @@
+import { Transaction, CycleType, DailyMetric, HourlyMetric } from '../types';
+import { CATEGORY_LABELS, CATEGORY_ORDER, countsAsDry, countsAsWash } from './classificationRules';
+import { RefundSummary, countsAsRevenue, isSale, summarizeRefunds } from './transactionKind';
+
+export const DAY_NAMES = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+export interface DashboardStats {
+  totalRevenue: number; // Net of refunds
+  totalCycles: number; // Sales only
+  refunds: RefundSummary;
+  washCount: number;
+  dryCount: number;
+  comboCount: number;
+  categoryData: { type: CycleType; name: string; value: number }[];
+  dailyData: DailyMetric[];
+  hourlyData: HourlyMetric[];
+  dayOfWeekData: { dayIndex: number; name: string; count: number }[];
+  rankingData: { name: string; count: number }[];
+  insights: {
+    peakHour: number;
+    fdsPercentage: string; // One decimal, e.g. "32.5"
+    topMachine: { name: string; count: number };
+    avgPerDay: string; // One decimal
+  };
+}
+
+// KPIs behind the usage dashboard, shared with the command-line summary
+export const computeDashboardStats = (transactions: Transaction[]): DashboardStats => {
+  let totalRev = 0;
+  let washCount = 0;
+  let dryCount = 0;
+  const categoryCounts = new Map<CycleType, number>();
+  
+  // Hourly & Daily Maps
+  const hourlyMap = new Array(24).fill(0).map((_, i) => ({ hour: i, count: 0, revenue: 0 }));
+  const dayOfWeekMap = new Array(7).fill(0).map((_, i) => ({ dayIndex: i, name: DAY_NAMES[i], count: 0 }));
+  const machineMap = new Map<string, { name: string; count: number }>();
+  const uniqueDays = new Set<string>();
+
+  const dailyMap = new Map<string, DailyMetric>();
+
+  // Refunds net the revenue; cycle metrics only look at actual sales
+  transactions.forEach(t => {
+    if (countsAsRevenue(t)) totalRev += t.amount;
+  });
+  const sales = transactions.filter(isSale);
+
+  sales.forEach(t => {
+    uniqueDays.add(t.businessDate);
+
+    if (countsAsWash(t.type)) washCount++;
+    if (countsAsDry(t.type)) dryCount++;
+    categoryCounts.set(t.type, (categoryCounts.get(t.type) || 0) + 1);
+
+    // Machine Usage
+    const machine = machineMap.get(t.machineId) || { name: t.machine, count: 0 };
+    machine.count++;
+    machineMap.set(t.machineId, machine);
+
+    // Hourly
+    const hour = t.date.getHours();
+    if (hour >= 0 && hour < 24) {
+      hourlyMap[hour].count++;
+    }
+
+    // Day of Week (operational day, so late-night sales stay on the day they started)
+    const dayIndex = t.businessDayOfWeek;
+    dayOfWeekMap[dayIndex].count++;
+
+    // Daily Aggregation for Chart
+    if (!dailyMap.has(t.businessDate)) {
+      dailyMap.set(t.businessDate, { 
+        date: t.businessDate, 
+        revenue: 0, 
+        washCount: 0, 
+        dryCount: 0, 
+        totalCount: 0,
+        dayOfWeek: t.businessDayOfWeek
+      });
+    }
+    const day = dailyMap.get(t.businessDate)!;
+    day.totalCount++;
+    if (countsAsWash(t.type)) day.washCount++;
+    if (countsAsDry(t.type)) day.dryCount++;
+  });
+
+  // Sort Daily data by Date object
+  const dailyData = Array.from(dailyMap.values()).sort((a, b) => {
+      const [dA, mA, yA] = a.date.split('/').map(Number);
+      const [dB, mB, yB] = b.date.split('/').map(Number);
+      return new Date(yA, mA - 1, dA).getTime() - new Date(yB, mB - 1, dB).getTime();
+  });
+
+  // Ranking Data
+  const rankingData = Array.from(machineMap.values())
+    .sort((a, b) => b.count - a.count);
+
+  // Insights Generation
+  const peakHour = hourlyMap.reduce((max, curr) => curr.count > max.count ? curr : max, { hour: 0, count: 0 });
+  
+  // Weekend vs Weekday
+  const weekendCount = dayOfWeekMap[0].count + dayOfWeekMap[6].count;
+  const fdsPercentage = sales.length > 0 ? ((weekendCount / sales.length) * 100).toFixed(1) : '0.0';
+
+  const topMachine = rankingData.length > 0 ? rankingData[0] : { name: 'N/A', count: 0 };
+  
+  const daysDivisor = uniqueDays.size || 1;
+  const avgPerDay = (sales.length / daysDivisor).toFixed(1);
+
+  return {
+    totalRevenue: totalRev,
+    totalCycles: sales.length,
+    refunds: summarizeRefunds(transactions),
+    washCount,
+    dryCount,
+    comboCount: categoryCounts.get(CycleType.COMBO) || 0,
+    categoryData: CATEGORY_ORDER
+      .map(type => ({ type, name: CATEGORY_LABELS[type], value: categoryCounts.get(type) || 0 }))
+      .filter(c => c.value > 0),
+    dailyData,
+    hourlyData: hourlyMap,
+    dayOfWeekData: dayOfWeekMap,
+    rankingData,
+    insights: {
+      peakHour: peakHour.hour,
+      fdsPercentage,
+      topMachine,
+      avgPerDay
+    }
+  };
+};
@@ -0,0 +1,178 @@
+import { DashboardMetadata, ReportData, Transaction } from '../types';
+import { mergeTransactions, monthOf } from './monthlyHistory';
+
+// Past imports kept on the device, in IndexedDB. Summaries and transactions
+// live in separate stores so the library can be listed without loading every
+// month's rows; Date fields survive as-is through structured cloning.
+
+export interface StoredImport {
+  id: string;
+  name: string;
+  fileNames: string[];
+  importedAt: string; // ISO date
+  reports: { metadata: DashboardMetadata; transactionCount: number }[];
+  units: string[]; // Indexed, for the monthly history of a unit
+  months: string[]; // yyyy-mm covered by the transactions
+}
+
+export interface StoredReports {
+  selfService: ReportData | null;
+  attendant: ReportData | null;
+}
+
+// Every stored transaction of one unit, overlapping imports merged
+export interface UnitHistory {
+  unitName: string;
+  selfService: Transaction[];
+  attendant: Transaction[];
+}
+
+export interface StorageEstimate {
+  usage: number; // Bytes
+  quota: number;
+}
+
+const DB_NAME = 'lavepague';
+const DB_VERSION = 2;
+const SUMMARY_STORE = 'imports';
+const DATA_STORE = 'importData';
+const UNIT_INDEX = 'byUnit';
+
+const storedReportList = (stored: StoredReports): ReportData[] =>
+  [stored.selfService, stored.attendant].filter((r): r is ReportData => r !== null);
+
+const indexFields = (stored: StoredReports): Pick<StoredImport, 'units' | 'months'> => {
+  const reports = storedReportList(stored);
+  const months = new Set<string>();
+  reports.forEach(r => r.transactions.forEach(t => months.add(monthOf(t))));
+  return {
+    units: Array.from(new Set(reports.map(r => r.metadata.unitName))),
+    months: Array.from(months).sort()
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+          db.createObjectStore(DATA_STORE);
+        }
+        if (event.oldVersion < 2) {
+          const summaries = tx.objectStore(SUMMARY_STORE);
+          summaries.createIndex(UNIT_INDEX, 'units', { multiEntry: true });
+          // Imports saved before the unit/month index get it from their stored rows
+          summaries.openCursor().onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            tx.objectStore(DATA_STORE).get(cursor.value.id).onsuccess = (d) => {
+              const stored = (d.target as IDBRequest<StoredReports | undefined>).result;
+              if (stored) cursor.update({ ...cursor.value, ...indexFields(stored) });
+              cursor.continue();
+            };
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs work inside one transaction and resolves once it is committed
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  work: (summaries: IDBObjectStore, data: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx.objectStore(SUMMARY_STORE), tx.objectStore(DATA_STORE));
+  await done;
+  return result;
+};
+
+const defaultName = (reports: ReportData[]): string => {
+  const { unitName, period } = reports[0].metadata;
+  return `${unitName} — ${period}`;
+};
+
+export const listImports = (): Promise<StoredImport[]> =>
+  withStores('readonly', async (summaries) => {
+    const all = await requestResult(summaries.getAll() as IDBRequest<StoredImport[]>);
+    return all.sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+  });
+
+export const saveImport = (stored: StoredReports, fileNames: string[]): Promise<StoredImport> => {
+  const reports = storedReportList(stored);
+  const summary: StoredImport = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: defaultName(reports),
+    fileNames,
+    importedAt: new Date().toISOString(),
+    reports: reports.map(r => ({ metadata: r.metadata, transactionCount: r.transactions.length })),
+    ...indexFields(stored)
+  };
+  return withStores('readwrite', async (summaries, data) => {
+    summaries.put(summary);
+    data.put(stored, summary.id);
+    return summary;
+  });
+};
+
+export const loadImport = (id: string): Promise<StoredReports | null> =>
+  withStores('readonly', async (_, data) => (await requestResult(data.get(id) as IDBRequest<StoredReports | undefined>)) || null);
+
+export const listUnits = async (): Promise<string[]> => {
+  const imports = await listImports();
+  return Array.from(new Set(imports.flatMap(i => i.units))).sort((a, b) => a.localeCompare(b));
+};
+
+export const loadUnitHistory = (unitName: string): Promise<UnitHistory> =>
+  withStores('readonly', async (summaries, data) => {
+    const imports = await requestResult(summaries.index(UNIT_INDEX).getAll(unitName) as IDBRequest<StoredImport[]>);
+    const stored = await Promise.all(imports.map(i => requestResult(data.get(i.id) as IDBRequest<StoredReports | undefined>)));
+    const ofUnit = (pick: (s: StoredReports) => ReportData | null) => mergeTransactions(
+      stored.map(s => s && pick(s)).filter((r): r is ReportData => !!r && r.metadata.unitName === unitName).map(r => r.transactions)
+    );
+    return { unitName, selfService: ofUnit(s => s.selfService), attendant: ofUnit(s => s.attendant) };
+  });
+
+export const renameImport = (id: string, name: string): Promise<void> =>
+  withStores('readwrite', async (summaries) => {
+    const summary = await requestResult(summaries.get(id) as IDBRequest<StoredImport | undefined>);
+    if (summary) summaries.put({ ...summary, name });
+  });
+
+export const deleteImport = (id: string): Promise<void> =>
+  withStores('readwrite', async (summaries, data) => {
+    summaries.delete(id);
+    data.delete(id);
+  });
+
+// null when the browser does not report it
+export const estimateStorage = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
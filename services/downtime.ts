@@ -0,0 +1,217 @@
+import { Transaction } from '../types';
+import { MachineRegistryConfig, buildMachineRegistry } from './machineRegistry';
+import { countsAsRevenue, isSale } from './transactionKind';
+import { cutoffMinutes, eachBusinessDay, formatDate, operationalDay, parseBusinessDate } from './businessDay';
+import { UnitCapacitySettings, openMinutesByHour } from './utilization';
+import { median } from './stats';
+
+// Silences that look like a broken terminal or machine rather than a slow day.
+// A machine is flagged when it went quiet for an open stretch in which it
+// would normally have run several cycles; a unit when a usually busy day
+// has (almost) no sales.
+
+export type DowntimeKind = 'MACHINE' | 'UNIT';
+
+export interface DowntimeEvent {
+  kind: DowntimeKind;
+  machineId: string | null; // Null for the whole unit
+  label: string;
+  start: Date; // Last sale before the silence
+  end: Date; // First sale after it, or the end of the data
+  ongoing: boolean; // Still silent when the data ends
+  openHours: number; // Opening hours without sales
+  expectedCycles: number; // Cycles a normal stretch of the same hours would have had
+  lostRevenue: number;
+  businessDates: string[]; // Operational days touched, dd/mm/yyyy
+}
+
+export interface DowntimeReport {
+  events: DowntimeEvent[]; // Most lost revenue first
+  lostRevenue: number;
+}
+
+// A machine silence must hide at least this many expected cycles; by chance
+// alone that happens well under once a month even on the busiest machine
+const MIN_EXPECTED_CYCLES = 8;
+// ...and last at least this long, so a burst-heavy machine isn't flagged for a short pause
+const MIN_GAP_MINUTES = 2 * 60;
+// Fewer uses than this give no reliable "normal" pace
+const MIN_MACHINE_USES = 20;
+
+// A day is silent below this share of its weekday's usual cycles...
+const SILENT_DAY_SHARE = 0.2;
+// ...when that weekday usually has at least this many
+const MIN_BUSY_DAY_CYCLES = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Slice {
+  hour: number;
+  openMinutes: number;
+  businessDate: string;
+}
+
+// Open time between two instants, cut at clock-hour boundaries
+const openSlices = (start: Date, end: Date, openByHour: number[], cutoff: string): Slice[] => {
+  const slices: Slice[] = [];
+  let cursor = start.getTime();
+  while (cursor < end.getTime()) {
+    const at = new Date(cursor);
+    const next = Math.min(new Date(at.getFullYear(), at.getMonth(), at.getDate(), at.getHours() + 1).getTime(), end.getTime());
+    const openMinutes = ((next - cursor) / 60000) * (openByHour[at.getHours()] / 60);
+    if (openMinutes > 0) slices.push({ hour: at.getHours(), openMinutes, businessDate: operationalDay(at, cutoff).businessDate });
+    cursor = next;
+  }
+  return slices;
+};
+
+// Operational days where the silence took at least an hour of opening time,
+// so a gap starting just before closing doesn't mark the day on the charts
+const markedDays = (slices: Slice[]): string[] => {
+  const minutesByDay = new Map<string, number>();
+  slices.forEach(s => minutesByDay.set(s.businessDate, (minutesByDay.get(s.businessDate) || 0) + s.openMinutes));
+  return Array.from(minutesByDay).filter(([, minutes]) => minutes >= 60).map(([businessDate]) => businessDate);
+};
+
+// Days with (almost) no sales on a weekday that is usually busy; consecutive
+// days are reported as one event
+const detectSilentDays = (
+  sales: Transaction[],
+  revenue: Transaction[],
+  label: string,
+  cutoff: string
+): DowntimeEvent[] => {
+  if (sales.length === 0) return [];
+  const cyclesByDay = new Map<string, number>();
+  const revenueByDay = new Map<string, number>();
+  sales.forEach(t => cyclesByDay.set(t.businessDate, (cyclesByDay.get(t.businessDate) || 0) + 1));
+  revenue.forEach(t => revenueByDay.set(t.businessDate, (revenueByDay.get(t.businessDate) || 0) + t.amount));
+
+  // Every operational day of the range, days without sales included
+  const days = eachBusinessDay(sales.map(t => parseBusinessDate(t.businessDate))).map(day => {
+    const businessDate = formatDate(day);
+    return { businessDate, weekday: day.getDay(), cycles: cyclesByDay.get(businessDate) || 0, revenue: revenueByDay.get(businessDate) || 0 };
+  });
+
+  const usualCycles = new Array(7).fill(0).map((_, weekday) => median(days.filter(d => d.weekday === weekday).map(d => d.cycles)));
+  const isSilent = (d: typeof days[number]) =>
+    usualCycles[d.weekday] >= MIN_BUSY_DAY_CYCLES && d.cycles < usualCycles[d.weekday] * SILENT_DAY_SHARE;
+  const usualRevenue = new Array(7).fill(0).map((_, weekday) => {
+    const normal = days.filter(d => d.weekday === weekday && !isSilent(d));
+    return normal.length > 0 ? normal.reduce((sum, d) => sum + d.revenue, 0) / normal.length : 0;
+  });
+
+  const start = (businessDate: string) => {
+    const day = parseBusinessDate(businessDate);
+    day.setHours(0, cutoffMinutes(cutoff));
+    return day;
+  };
+
+  const events: DowntimeEvent[] = [];
+  let current: DowntimeEvent | null = null;
+  days.forEach(d => {
+    if (!isSilent(d)) {
+      current = null;
+      return;
+    }
+    const end = new Date(start(d.businessDate).getTime() + 24 * HOUR_MS);
+    if (!current) {
+      current = {
+        kind: 'UNIT',
+        machineId: null,
+        label,
+        start: start(d.businessDate),
+        end,
+        ongoing: false,
+        openHours: 0,
+        expectedCycles: 0,
+        lostRevenue: 0,
+        businessDates: []
+      };
+      events.push(current);
+    }
+    current.end = end;
+    current.expectedCycles += usualCycles[d.weekday] - d.cycles;
+    current.lostRevenue += Math.max(0, usualRevenue[d.weekday] - d.revenue);
+    current.businessDates.push(d.businessDate);
+  });
+  return events;
+};
+
+export const detectDowntime = (
+  transactions: Transaction[],
+  settings: UnitCapacitySettings,
+  machineConfig: MachineRegistryConfig,
+  cutoff: string,
+  unitName: string
+): DowntimeReport => {
+  const sales = transactions.filter(isSale).sort((a, b) => a.date.getTime() - b.date.getTime());
+  const revenue = transactions.filter(countsAsRevenue);
+  if (sales.length === 0) return { events: [], lostRevenue: 0 };
+
+  const openByHour = openMinutesByHour(settings);
+  const rangeStart = sales[0].date;
+  const rangeEnd = sales[sales.length - 1].date;
+
+  const unitEvents = detectSilentDays(sales, revenue, unitName, cutoff);
+  // Machines are expected to be quiet while the whole unit is down
+  const silentDays = new Set(unitEvents.flatMap(e => e.businessDates));
+
+  // The unit's pace by clock hour (sales per open minute); each machine is
+  // assumed to follow the same daily curve at its own volume
+  const unitSlices = openSlices(rangeStart, rangeEnd, openByHour, cutoff).filter(s => !silentDays.has(s.businessDate));
+  const openByHourInRange = new Array(24).fill(0);
+  unitSlices.forEach(s => { openByHourInRange[s.hour] += s.openMinutes; });
+  const salesByHour = new Array(24).fill(0);
+  sales.forEach(t => { salesByHour[t.date.getHours()]++; });
+  const unitPace = salesByHour.map((count, hour) => openByHourInRange[hour] > 0 ? count / openByHourInRange[hour] : 0);
+
+  const salesByMachine = new Map<string, Transaction[]>();
+  sales.forEach(t => {
+    const list = salesByMachine.get(t.machineId);
+    if (list) list.push(t);
+    else salesByMachine.set(t.machineId, [t]);
+  });
+  const revenueByMachine = new Map<string, number>();
+  revenue.forEach(t => revenueByMachine.set(t.machineId, (revenueByMachine.get(t.machineId) || 0) + t.amount));
+
+  const registry = buildMachineRegistry(sales.map(t => t.productName), machineConfig);
+  const machineEvents: DowntimeEvent[] = [];
+  registry.machines.forEach(info => {
+    // Same machines as the utilization report: unnumbered products are services
+    if (info.kind === 'OTHER' || info.number === null) return;
+    const uses = salesByMachine.get(info.id) || [];
+    if (uses.length < MIN_MACHINE_USES) return;
+
+    const share = uses.length / sales.length;
+    const ticket = (revenueByMachine.get(info.id) || 0) / uses.length;
+
+    // Gaps between consecutive uses, plus the silence after the last one
+    const gaps = uses.map((t, i) => ({ start: t.date, end: i + 1 < uses.length ? uses[i + 1].date : rangeEnd, ongoing: i + 1 === uses.length }));
+    gaps.forEach(gap => {
+      const slices = openSlices(gap.start, gap.end, openByHour, cutoff).filter(s => !silentDays.has(s.businessDate));
+      const openMinutes = slices.reduce((sum, s) => sum + s.openMinutes, 0);
+      const expectedCycles = slices.reduce((sum, s) => sum + s.openMinutes * unitPace[s.hour] * share, 0);
+      if (openMinutes < MIN_GAP_MINUTES || expectedCycles < MIN_EXPECTED_CYCLES) return;
+      machineEvents.push({
+        kind: 'MACHINE',
+        machineId: info.id,
+        label: info.label,
+        start: gap.start,
+        end: gap.end,
+        ongoing: gap.ongoing,
+        openHours: openMinutes / 60,
+        expectedCycles,
+        lostRevenue: expectedCycles * ticket,
+        businessDates: markedDays(slices)
+      });
+    });
+  });
+
+  // Unit days count their whole opening hours
+  const openPerDay = openByHour.reduce((sum, m) => sum + m, 0) / 60;
+  unitEvents.forEach(e => { e.openHours = openPerDay * e.businessDates.length; });
+
+  const events = [...unitEvents, ...machineEvents].sort((a, b) => b.lostRevenue - a.lostRevenue);
+  return { events, lostRevenue: events.reduce((sum, e) => sum + e.lostRevenue, 0) };
+};
@@ -0,0 +1,88 @@
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// 'auto' lets detectEncoding decide; any other value forces that decoder
+export type EncodingChoice = 'auto' | TextEncodingName;
+
+export const ENCODING_LABELS: Record<TextEncodingName, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252 / ISO-8859-1'
+};
+
+export interface EncodingDetection {
+  encoding: TextEncodingName;
+  source: 'BOM' | 'HEURISTIC' | 'MANUAL';
+}
+
+export interface DecodedText {
+  text: string;
+  detection: EncodingDetection;
+}
+
+const BOMS: { bytes: number[]; encoding: TextEncodingName }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' }
+];
+
+const SAMPLE_SIZE = 64 * 1024;
+
+const hasPrefix = (bytes: Uint8Array, prefix: number[]): boolean =>
+  bytes.length >= prefix.length && prefix.every((b, i) => bytes[i] === b);
+
+const detectBom = (bytes: Uint8Array): TextEncodingName | null =>
+  BOMS.find(bom => hasPrefix(bytes, bom.bytes))?.encoding || null;
+
+// Plain-text UTF-16 without BOM has a NUL in every other byte for ASCII content
+const detectUtf16 = (sample: Uint8Array): TextEncodingName | null => {
+  if (sample.length < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  const pairs = Math.floor(sample.length / 2);
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+};
+
+const isValidUtf8 = (sample: Uint8Array): boolean => {
+  // A multi-byte sequence may be cut at the end of the sample; drop the tail
+  let end = sample.length;
+  for (let k = 1; k <= 3 && end - k >= 0; k++) {
+    const b = sample[end - k];
+    if ((b & 0xc0) === 0xc0) { end -= k; break; } // Lead byte of a truncated sequence
+    if ((b & 0xc0) !== 0x80) break; // ASCII: sample ends cleanly
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, end));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const detectEncoding = (bytes: Uint8Array): EncodingDetection => {
+  const bom = detectBom(bytes);
+  if (bom) return { encoding: bom, source: 'BOM' };
+
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  const utf16 = detectUtf16(sample);
+  if (utf16) return { encoding: utf16, source: 'HEURISTIC' };
+
+  // Latin-1 accented letters are single high bytes, which are never valid UTF-8 on their own
+  return { encoding: isValidUtf8(sample) ? 'utf-8' : 'windows-1252', source: 'HEURISTIC' };
+};
+
+export const decodeBytes = (bytes: Uint8Array, choice: EncodingChoice = 'auto'): DecodedText => {
+  const detection: EncodingDetection = choice === 'auto'
+    ? detectEncoding(bytes)
+    : { encoding: choice, source: 'MANUAL' };
+
+  // TextDecoder strips a matching BOM by itself
+  const text = new TextDecoder(detection.encoding).decode(bytes);
+  return { text, detection };
+};
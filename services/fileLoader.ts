@@ -0,0 +1,85 @@
+import { createCsvParser, ParseOptions, ParseResult } from './csvParser';
+import { detectEncoding, EncodingChoice, EncodingDetection } from './encoding';
+import { isSpreadsheetFile } from './spreadsheetFiles';
+
+export interface LoadProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+export interface LoadRequest {
+  file: File;
+  encoding: EncodingChoice;
+  sheetName?: string; // Spreadsheets only; omitted picks the first relevant sheet
+  options: ParseOptions;
+}
+
+export interface LoadedFile {
+  encoding?: EncodingDetection; // Text files only
+  sheet?: { name: string; names: string[] }; // Spreadsheet files only
+  result: ParseResult;
+}
+
+const CHUNK_SIZE = 1024 * 1024;
+const ENCODING_SAMPLE_SIZE = 64 * 1024;
+
+// Reads a file slice by slice, decoding and parsing as it goes, so memory and
+// per-step work stay bounded regardless of the export size
+const loadTextFile = async (
+  request: LoadRequest,
+  onProgress: (progress: LoadProgress) => void
+): Promise<LoadedFile> => {
+  const { file, encoding, options } = request;
+  const totalBytes = file.size;
+
+  const head = new Uint8Array(await file.slice(0, ENCODING_SAMPLE_SIZE).arrayBuffer());
+  const detection: EncodingDetection = encoding === 'auto'
+    ? detectEncoding(head)
+    : { encoding, source: 'MANUAL' };
+
+  const decoder = new TextDecoder(detection.encoding);
+  const parser = createCsvParser(options);
+
+  for (let offset = 0; offset < totalBytes; offset += CHUNK_SIZE) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+    parser.write(decoder.decode(bytes, { stream: true }));
+    onProgress({ bytesRead: Math.min(offset + CHUNK_SIZE, totalBytes), totalBytes, rows: parser.rowsRead() });
+  }
+  parser.write(decoder.decode());
+
+  return { encoding: detection, result: parser.end() };
+};
+
+// Workbooks are zip archives and must be read whole; the converted text is still
+// fed to the parser in chunks so row progress keeps moving
+const loadSpreadsheetFile = async (
+  request: LoadRequest,
+  onProgress: (progress: LoadProgress) => void
+): Promise<LoadedFile> => {
+  const { file, sheetName, options } = request;
+  const totalBytes = file.size;
+
+  // Loaded on demand: the main thread only needs xlsx when workers are unavailable
+  const { readSpreadsheet } = await import('./spreadsheetReader');
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const sheet = readSpreadsheet(bytes, sheetName);
+  onProgress({ bytesRead: totalBytes, totalBytes, rows: 0 });
+
+  // The converted sheet is always comma-separated; no need to sniff it
+  const parser = createCsvParser({ ...options, delimiter: ',' });
+  for (let offset = 0; offset < sheet.text.length; offset += CHUNK_SIZE) {
+    parser.write(sheet.text.slice(offset, offset + CHUNK_SIZE));
+    onProgress({ bytesRead: totalBytes, totalBytes, rows: parser.rowsRead() });
+  }
+
+  return { sheet: { name: sheet.sheetName, names: sheet.sheetNames }, result: parser.end() };
+};
+
+export const loadFile = (
+  request: LoadRequest,
+  onProgress: (progress: LoadProgress) => void = () => {}
+): Promise<LoadedFile> =>
+  isSpreadsheetFile(request.file.name)
+    ? loadSpreadsheetFile(request, onProgress)
+    : loadTextFile(request, onProgress);
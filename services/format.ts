@@ -0,0 +1,4 @@
+// Display formatting shared by the views, the analysis notes and the CLI
+
+export const formatCurrency = (val: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
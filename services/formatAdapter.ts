@@ -0,0 +1,86 @@
+import { DashboardMetadata } from '../types';
+import { ColumnIndexMap, FieldRules } from './columnMapping';
+
+export enum SkipReason {
+  TOTAL_LINE = 'TOTAL_LINE',
+  COLUMN_COUNT = 'COLUMN_COUNT',
+  MISSING_DATE = 'MISSING_DATE',
+  INVALID_DATE = 'INVALID_DATE',
+  UNKNOWN_FORMAT = 'UNKNOWN_FORMAT'
+}
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  [SkipReason.TOTAL_LINE]: 'Linha de total',
+  [SkipReason.COLUMN_COUNT]: 'Número de colunas insuficiente',
+  [SkipReason.MISSING_DATE]: 'Data ausente',
+  [SkipReason.INVALID_DATE]: 'Data fora do formato dd/mm/aaaa',
+  [SkipReason.UNKNOWN_FORMAT]: 'Formato do arquivo não reconhecido'
+};
+
+// Text cells of one data row, before the shared pipeline (amount parsing,
+// classification, refunds, ids) turns them into a Transaction
+export interface AdapterRow {
+  date: string; // dd/mm/yyyy
+  time: string; // HH:MM:SS
+  product: string;
+  amount: string;
+  payment: string;
+  unitName?: string; // For layouts that carry the unit on every row
+}
+
+export interface AdapterMetadata {
+  unitName?: string;
+  period?: string;
+  reportType?: DashboardMetadata['reportType']; // When the file names it, over the adapter's default
+}
+
+// One POS / export layout. Adding a vendor means writing one of these and
+// registering it in formatRegistry.ts; parseCSV itself does not change.
+export interface FormatAdapter {
+  id: string; // Stored as diagnostics.format and in mapping profiles
+  label: string;
+  reportType: DashboardMetadata['reportType']; // Dashboard fed by default
+  fieldRules: FieldRules; // Header synonyms and fallback positions for resolveMapping
+  // Confidence between 0 and 1 that the leading records come from this layout
+  detect: (records: string[][]) => number;
+  // Index of the header record within the leading records, -1 if absent
+  findHeader: (records: string[][]) => number;
+  extractMetadata: (records: string[][]) => AdapterMetadata;
+  // Subtotal/total lines, checked before the column count
+  isSummaryRow?: (cols: string[]) => boolean;
+  mapRow: (cols: string[], columns: ColumnIndexMap) => AdapterRow | SkipReason;
+}
+
+// --- Helpers shared by the adapters ---
+
+export const cleanCell = (value: string | undefined): string => value?.replace(/['"]/g, '').trim() || "";
+
+// True when some cell of the record contains each of the given texts
+export const hasCells = (fields: string[], ...texts: string[]): boolean =>
+  texts.every(text => fields.some(f => f.includes(text)));
+
+// Records scanned for the report signature and period
+export const DETECTION_WINDOW = 5000;
+
+// "Vendas de 01/03/2025 ate 31/03/2025" title cell used by both vendor exports
+export const findSalesPeriod = (records: string[][]): string | undefined => {
+  const limit = Math.min(records.length, DETECTION_WINDOW);
+  for (let i = 0; i < limit; i++) {
+    const periodCell = records[i].find(f => f.includes("Vendas de"));
+    if (periodCell) {
+      return periodCell.replace("Vendas de ", "").replace(" ate ", " - ").replace(/['"]/g, "").trim();
+    }
+  }
+  return undefined;
+};
+
+export const startsWithTotal = (cols: string[]): boolean => cols[0].trim().startsWith("Total");
+
+// First record containing all the signature cells, -1 if none
+export const findRecordWith = (records: string[][], ...texts: string[]): number => {
+  const limit = Math.min(records.length, DETECTION_WINDOW);
+  for (let i = 0; i < limit; i++) {
+    if (hasCells(records[i], ...texts)) return i;
+  }
+  return -1;
+};
@@ -0,0 +1,32 @@
+import { FormatAdapter } from './formatAdapter';
+import { selfServiceAdapter } from './adapters/selfServiceAdapter';
+import { attendantAdapter } from './adapters/attendantAdapter';
+import { canonicalAdapter } from './adapters/canonicalAdapter';
+
+// Registration order breaks confidence ties
+const adapters: FormatAdapter[] = [selfServiceAdapter, attendantAdapter, canonicalAdapter];
+
+export const registerAdapter = (adapter: FormatAdapter) => {
+  if (adapters.some(a => a.id === adapter.id)) {
+    throw new Error(`Formato "${adapter.id}" já registrado.`);
+  }
+  adapters.push(adapter);
+};
+
+export const listAdapters = (): readonly FormatAdapter[] => adapters;
+
+export const getAdapter = (id: string): FormatAdapter | undefined => adapters.find(a => a.id === id);
+
+// Most confident adapter for the leading records of a file, or null if none matches
+export const detectAdapter = (records: string[][]): FormatAdapter | null => {
+  let best: FormatAdapter | null = null;
+  let bestScore = 0;
+  for (const adapter of adapters) {
+    const score = adapter.detect(records);
+    if (score > bestScore) {
+      best = adapter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
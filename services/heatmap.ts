@@ -0,0 +1,47 @@
+import { Transaction } from '../types';
+import { countsAsRevenue, isSale } from './transactionKind';
+import { eachBusinessDay, parseBusinessDate } from './businessDay';
+
+export type HeatmapMetric = 'CYCLES' | 'REVENUE' | 'AVERAGE';
+
+export const HEATMAP_METRIC_LABELS: Record<HeatmapMetric, string> = {
+  CYCLES: 'Ciclos',
+  REVENUE: 'Receita',
+  AVERAGE: 'Média por dia'
+};
+
+// [weekday][hour], weekday 0 = Sunday on the operational calendar
+export type HeatmapGrid = number[][];
+
+const emptyGrid = (): HeatmapGrid => new Array(7).fill(0).map(() => new Array(24).fill(0));
+
+// How many times each weekday occurs in the loaded range, days without sales included
+const weekdayOccurrences = (transactions: Transaction[]): number[] => {
+  const counts = new Array(7).fill(0);
+  eachBusinessDay(transactions.map(t => parseBusinessDate(t.businessDate))).forEach(day => { counts[day.getDay()]++; });
+  return counts;
+};
+
+// Cycles, net revenue, or cycles per occurrence of the weekday ("a typical
+// Sunday at 10h"), by operational weekday and clock hour
+export const buildHeatmap = (transactions: Transaction[], metric: HeatmapMetric): HeatmapGrid => {
+  const grid = emptyGrid();
+  if (metric === 'REVENUE') {
+    transactions.filter(countsAsRevenue).forEach(t => { grid[t.businessDayOfWeek][t.date.getHours()] += t.amount; });
+    return grid;
+  }
+
+  const sales = transactions.filter(isSale);
+  sales.forEach(t => { grid[t.businessDayOfWeek][t.date.getHours()]++; });
+  if (metric === 'CYCLES') return grid;
+
+  const occurrences = weekdayOccurrences(sales);
+  return grid.map((row, day) => row.map(value => occurrences[day] > 0 ? value / occurrences[day] : 0));
+};
+
+// Cell by cell, first minus second; positive where the first dominates
+export const diffHeatmap = (a: HeatmapGrid, b: HeatmapGrid): HeatmapGrid =>
+  a.map((row, day) => row.map((value, hour) => value - b[day][hour]));
+
+export const heatmapMax = (grid: HeatmapGrid): number =>
+  Math.max(0, ...grid.map(row => Math.max(...row.map(Math.abs))));
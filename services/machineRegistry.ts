@@ -0,0 +1,184 @@
+import { Transaction } from '../types';
+
+export type MachineKind = 'WASHER' | 'DRYER' | 'OTHER';
+
+export const MACHINE_KIND_LABELS: Record<MachineKind, string> = {
+  WASHER: 'Lavadora',
+  DRYER: 'Secadora',
+  OTHER: 'Outro'
+};
+
+const KIND_ORDER: MachineKind[] = ['WASHER', 'DRYER', 'OTHER'];
+
+export interface ParsedMachineName {
+  id: string; // Canonical key, e.g. "WASHER-1"; unparseable names keep their normalized text
+  kind: MachineKind;
+  number: number | null;
+  capacityKg: number | null;
+}
+
+// User edits, keyed by canonical machine id
+export interface MachineSettings {
+  name?: string;
+  installedAt?: string; // yyyy-mm-dd
+  capacityKg?: number;
+}
+
+export interface MachineRegistryConfig {
+  machines: Record<string, MachineSettings>;
+  aliases: Record<string, string>; // Machine id -> id it was merged into
+}
+
+export interface MachineInfo {
+  id: string;
+  kind: MachineKind;
+  number: number | null;
+  capacityKg: number | null;
+  label: string; // Custom name, or a generated "Lavadora 01 (10kg)"
+  installedAt?: string;
+  rawNames: string[]; // Every spelling found in the reports
+  mergedIds: string[]; // Ids merged into this machine by the user
+}
+
+export interface MachineRegistry {
+  machines: MachineInfo[];
+  resolve: (rawName: string) => MachineInfo;
+}
+
+export const EMPTY_MACHINE_CONFIG: MachineRegistryConfig = { machines: {}, aliases: {} };
+
+const normalize = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().replace(/\s+/g, ' ').trim();
+
+// "LAVADORA 01 10KG", "Lavadora 1" and "LAV01" all parse to WASHER #1
+export const parseMachineName = (rawName: string): ParsedMachineName => {
+  const text = normalize(rawName);
+
+  const capacityMatch = text.match(/(\d+(?:[.,]\d+)?)\s*KG\b/);
+  const capacityKg = capacityMatch ? parseFloat(capacityMatch[1].replace(',', '.')) : null;
+  const rest = capacityMatch ? text.replace(capacityMatch[0], ' ') : text;
+
+  const isWasher = /(^|[^A-Z])(LAV|WASH)/.test(rest);
+  const isDryer = /(^|[^A-Z])(SEC|DRY)/.test(rest);
+  // Names mentioning both (e.g. a "lava e seca" product) are not a single machine
+  const kind: MachineKind = isWasher && !isDryer ? 'WASHER' : isDryer && !isWasher ? 'DRYER' : 'OTHER';
+
+  const numberMatch = rest.match(/\d+/);
+  const number = kind !== 'OTHER' && numberMatch ? parseInt(numberMatch[0], 10) : null;
+
+  const id = number !== null ? `${kind}-${number}` : text;
+  return { id, kind, number, capacityKg };
+};
+
+const defaultLabel = (kind: MachineKind, number: number | null, capacityKg: number | null, fallback: string): string => {
+  if (number === null) return fallback.trim();
+  const base = `${MACHINE_KIND_LABELS[kind]} ${String(number).padStart(2, '0')}`;
+  return capacityKg ? `${base} (${String(capacityKg).replace('.', ',')}kg)` : base;
+};
+
+// Follows merge chains; a cycle stops at the first repeated id
+const followAliases = (id: string, aliases: Record<string, string>): string => {
+  const visited = new Set<string>();
+  let current = id;
+  while (aliases[current] && !visited.has(current)) {
+    visited.add(current);
+    current = aliases[current];
+  }
+  return current;
+};
+
+export const buildMachineRegistry = (rawNames: Iterable<string>, config: MachineRegistryConfig): MachineRegistry => {
+  const parsedById = new Map<string, ParsedMachineName>();
+  const groups = new Map<string, { raws: Set<string>; ids: Set<string>; capacities: number[] }>();
+  const rawToTarget = new Map<string, string>();
+
+  for (const raw of rawNames) {
+    if (rawToTarget.has(raw)) continue;
+    const parsed = parseMachineName(raw);
+    if (!parsedById.has(parsed.id)) parsedById.set(parsed.id, parsed);
+
+    const target = followAliases(parsed.id, config.aliases);
+    rawToTarget.set(raw, target);
+
+    const group = groups.get(target) || { raws: new Set<string>(), ids: new Set<string>(), capacities: [] };
+    group.raws.add(raw);
+    if (parsed.id !== target) group.ids.add(parsed.id);
+    if (parsed.capacityKg !== null) group.capacities.push(parsed.capacityKg);
+    groups.set(target, group);
+  }
+
+  const byId = new Map<string, MachineInfo>();
+  groups.forEach((group, id) => {
+    const rawList = Array.from(group.raws);
+    // A merge target missing from the data borrows the shape of its first alias
+    const parsed = parsedById.get(id) || parseMachineName(rawList[0]);
+    const settings = config.machines[id] || {};
+    const capacityKg = settings.capacityKg ?? (group.capacities.length > 0 ? Math.max(...group.capacities) : null);
+
+    byId.set(id, {
+      id,
+      kind: parsed.kind,
+      number: parsed.number,
+      capacityKg,
+      label: settings.name?.trim() || defaultLabel(parsed.kind, parsed.number, capacityKg, rawList[0]),
+      installedAt: settings.installedAt,
+      rawNames: rawList.sort(),
+      mergedIds: Array.from(group.ids).sort()
+    });
+  });
+
+  const machines = Array.from(byId.values()).sort((a, b) =>
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || (a.number ?? Infinity) - (b.number ?? Infinity) || a.label.localeCompare(b.label)
+  );
+
+  const resolve = (rawName: string): MachineInfo => {
+    const known = rawToTarget.get(rawName);
+    if (known) return byId.get(known)!;
+    const parsed = parseMachineName(rawName);
+    const target = byId.get(followAliases(parsed.id, config.aliases));
+    if (target) return target;
+    return {
+      id: parsed.id,
+      kind: parsed.kind,
+      number: parsed.number,
+      capacityKg: parsed.capacityKg,
+      label: defaultLabel(parsed.kind, parsed.number, parsed.capacityKg, rawName),
+      rawNames: [rawName],
+      mergedIds: []
+    };
+  };
+
+  return { machines, resolve };
+};
+
+// Points every transaction at its canonical machine. The raw name stays in
+// productName, so the registry can be re-applied after each edit.
+export const applyMachineRegistry = (transactions: Transaction[], config: MachineRegistryConfig): Transaction[] => {
+  const registry = buildMachineRegistry(transactions.map(t => t.productName), config);
+  return transactions.map(t => {
+    const machine = registry.resolve(t.productName);
+    return machine.id === t.machineId && machine.label === t.machine
+      ? t
+      : { ...t, machineId: machine.id, machine: machine.label };
+  });
+};
+
+// --- Local persistence ---
+
+const STORAGE_KEY = 'lavepague.machineRegistry';
+
+export const loadMachineConfig = (): MachineRegistryConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_MACHINE_CONFIG;
+    const parsed = JSON.parse(raw);
+    return { machines: parsed.machines || {}, aliases: parsed.aliases || {} };
+  } catch (err) {
+    console.error(err);
+    return EMPTY_MACHINE_CONFIG;
+  }
+};
+
+export const saveMachineConfig = (config: MachineRegistryConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,118 @@
+import { Transaction } from '../types';
+import { countsAsRevenue } from './transactionKind';
+import { eachBusinessDay, formatDate, parseBusinessDate } from './businessDay';
+
+// Month-end revenue forecast: the days still to come in the month of the last
+// loaded day are filled with the average revenue of their weekday.
+
+// Two-sided ~80% interval under a normal approximation
+const BAND_Z = 1.28;
+
+// Fewer sampled days than this give weekday averages too noisy to show
+export const MIN_SAMPLE_DAYS = 7;
+
+export interface ProjectedDay {
+  businessDate: string;
+  projected: number; // Cumulative revenue of the month
+  band: [number, number];
+}
+
+export interface MonthProjection {
+  monthLabel: string; // "março de 2025"
+  actual: number; // Month to date, net
+  projectedTotal: number;
+  low: number;
+  high: number;
+  remainingDays: number;
+  days: ProjectedDay[]; // One per remaining day
+  sampleDays: number;
+}
+
+const stats = (values: number[]): { mean: number; variance: number } => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, variance };
+};
+
+// `current` is what the dashboard shows; `sample` feeds the weekday averages
+// and may add stored months of the same unit. Null without enough history.
+export const projectMonthEnd = (current: Transaction[], sample: Transaction[]): MonthProjection | null => {
+  const revenue = current.filter(countsAsRevenue);
+  if (revenue.length === 0) return null;
+
+  const loaded = eachBusinessDay(revenue.map(t => parseBusinessDate(t.businessDate)));
+  const lastDay = loaded[loaded.length - 1];
+  const monthEnd = new Date(lastDay.getFullYear(), lastDay.getMonth() + 1, 0);
+  const inMonth = (date: Date) => date.getFullYear() === lastDay.getFullYear() && date.getMonth() === lastDay.getMonth();
+  const actual = revenue
+    .filter(t => inMonth(parseBusinessDate(t.businessDate)))
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  // Daily totals by operational day, then grouped by weekday
+  const dailyTotals = new Map<string, { weekday: number; total: number }>();
+  sample.filter(countsAsRevenue).forEach(t => {
+    const day = dailyTotals.get(t.businessDate) || { weekday: t.businessDayOfWeek, total: 0 };
+    day.total += t.amount;
+    dailyTotals.set(t.businessDate, day);
+  });
+  const days = Array.from(dailyTotals.values());
+  if (days.length < MIN_SAMPLE_DAYS) return null;
+
+  const overall = stats(days.map(d => d.total));
+  // A weekday seen fewer than twice falls back to the average of all days
+  const byWeekday = new Array(7).fill(0).map((_, weekday) => {
+    const totals = days.filter(d => d.weekday === weekday).map(d => d.total);
+    return totals.length >= 2 ? stats(totals) : overall;
+  });
+
+  let mean = actual;
+  let variance = 0;
+  const projectedDays: ProjectedDay[] = [];
+  for (const day = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1); day <= monthEnd; day.setDate(day.getDate() + 1)) {
+    const weekday = byWeekday[day.getDay()];
+    mean += weekday.mean;
+    variance += weekday.variance;
+    const spread = BAND_Z * Math.sqrt(variance);
+    projectedDays.push({ businessDate: formatDate(day), projected: mean, band: [Math.max(actual, mean - spread), mean + spread] });
+  }
+
+  const spread = BAND_Z * Math.sqrt(variance);
+  return {
+    monthLabel: lastDay.toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' }),
+    actual,
+    projectedTotal: mean,
+    low: Math.max(actual, mean - spread),
+    high: mean + spread,
+    remainingDays: projectedDays.length,
+    days: projectedDays,
+    sampleDays: days.length
+  };
+};
+
+// --- Local persistence ---
+
+// Monthly revenue target per unit
+export type RevenueTargets = Record<string, number>;
+
+const STORAGE_KEY = 'lavepague.revenueTargets';
+
+export const loadTargets = (): RevenueTargets => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (err) {
+    console.error(err);
+    return {};
+  }
+};
+
+// A null target removes it
+export const saveTarget = (unitName: string, target: number | null): RevenueTargets => {
+  const next = { ...loadTargets() };
+  if (target === null) delete next[unitName];
+  else next[unitName] = target;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
@@ -0,0 +1,102 @@
+import { Transaction } from '../types';
+import { countsAsDry, countsAsWash } from './classificationRules';
+import { countsAsRevenue, isSale } from './transactionKind';
+
+export interface MonthlyPoint {
+  month: string; // yyyy-mm
+  label: string; // "mar/25"
+  revenue: number; // Net, both channels
+  selfRevenue: number;
+  attendantRevenue: number;
+  cycles: number; // Sales, both channels
+  washCount: number;
+  dryCount: number;
+  avgTicket: number;
+  selfShare: number; // % of net revenue from self-service
+}
+
+export type MonthlyMetric = 'revenue' | 'cycles' | 'avgTicket' | 'selfShare';
+
+const MONTH_LABELS = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+// Operational month of a transaction, "yyyy-mm"
+export const monthOf = (t: Transaction): string => {
+  const [, month, year] = t.businessDate.split('/');
+  return `${year}-${month}`;
+};
+
+export const monthLabel = (month: string): string => {
+  const [year, m] = month.split('-');
+  return `${MONTH_LABELS[parseInt(m, 10) - 1]}/${year.slice(2)}`;
+};
+
+const shiftMonth = (month: string, delta: number): string => {
+  const [year, m] = month.split('-').map(Number);
+  const index = year * 12 + (m - 1) + delta;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+// Overlapping exports of the same month carry the same content-based ids, so the
+// union keeps each sale once
+export const mergeTransactions = (lists: Transaction[][]): Transaction[] => {
+  const byId = new Map<string, Transaction>();
+  lists.forEach(list => list.forEach(t => {
+    if (!byId.has(t.id)) byId.set(t.id, t);
+  }));
+  return Array.from(byId.values());
+};
+
+export const buildMonthlyHistory = (selfService: Transaction[], attendant: Transaction[]): MonthlyPoint[] => {
+  const points = new Map<string, MonthlyPoint>();
+  const pointFor = (month: string): MonthlyPoint => {
+    let point = points.get(month);
+    if (!point) {
+      point = {
+        month, label: monthLabel(month), revenue: 0, selfRevenue: 0, attendantRevenue: 0,
+        cycles: 0, washCount: 0, dryCount: 0, avgTicket: 0, selfShare: 0
+      };
+      points.set(month, point);
+    }
+    return point;
+  };
+
+  const add = (t: Transaction, channel: 'selfRevenue' | 'attendantRevenue') => {
+    const point = pointFor(monthOf(t));
+    if (countsAsRevenue(t)) {
+      point.revenue += t.amount;
+      point[channel] += t.amount;
+    }
+    if (isSale(t)) {
+      point.cycles++;
+      if (countsAsWash(t.type)) point.washCount++;
+      if (countsAsDry(t.type)) point.dryCount++;
+    }
+  };
+  selfService.forEach(t => add(t, 'selfRevenue'));
+  attendant.forEach(t => add(t, 'attendantRevenue'));
+
+  return Array.from(points.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(p => ({
+      ...p,
+      avgTicket: p.cycles > 0 ? p.revenue / p.cycles : 0,
+      selfShare: p.revenue !== 0 ? (p.selfRevenue / p.revenue) * 100 : 0
+    }));
+};
+
+// Change against the month `lag` months earlier (1 = MoM, 12 = YoY). Percent
+// change for amounts, percentage points for the self-service share; null when
+// that month is not loaded or the base is zero.
+export const monthlyDelta = (
+  history: MonthlyPoint[],
+  month: string,
+  metric: MonthlyMetric,
+  lag: number
+): number | null => {
+  const current = history.find(p => p.month === month);
+  const previous = history.find(p => p.month === shiftMonth(month, -lag));
+  if (!current || !previous) return null;
+  if (metric === 'selfShare') return current.selfShare - previous.selfShare;
+  if (previous[metric] === 0) return null;
+  return ((current[metric] - previous[metric]) / Math.abs(previous[metric])) * 100;
+};
@@ -0,0 +1,118 @@
+import { ReportData, Transaction } from '../types';
+import { countsAsDry, countsAsWash } from './classificationRules';
+import { countsAsRevenue, isSale } from './transactionKind';
+import { MergeSource, mergeParseResults } from './reportMerge';
+import { UNKNOWN_UNIT } from './csvParser';
+
+// Both reports of one unit of the network
+export interface UnitReports {
+  unitName: string;
+  selfService: ReportData | null;
+  attendant: ReportData | null;
+  fileNames: string[];
+}
+
+export interface UnitSummary {
+  unitName: string;
+  revenue: number; // Net, both channels
+  selfRevenue: number;
+  attendantRevenue: number;
+  cycles: number; // Sales, both channels
+  avgTicket: number;
+  machineCount: number; // Distinct washers/dryers with at least one sale
+  revenuePerMachine: number;
+}
+
+// Self-service reads the unit from "Operador:" and attendant from the first column,
+// so the same unit may come spelled differently
+const unitKey = (unitName: string): string =>
+  unitName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const groupByUnit = (sources: MergeSource[], names: Map<string, string>): Map<string, MergeSource[]> => {
+  const groups = new Map<string, MergeSource[]>();
+  sources.forEach(source => {
+    const name = source.result.metadata.unitName;
+    const key = unitKey(name);
+    if (!names.has(key)) names.set(key, name);
+    groups.set(key, [...(groups.get(key) || []), source]);
+  });
+  return groups;
+};
+
+// An export that doesn't name its unit belongs to none until the user picks one
+export const isUnitless = (source: MergeSource): boolean => source.result.metadata.unitName === UNKNOWN_UNIT;
+
+// The named units among the exports, each once however it is spelled
+export const unitNames = (sources: MergeSource[]): string[] => {
+  const names = new Map<string, string>();
+  groupByUnit(sources.filter(s => !isUnitless(s)), names);
+  return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+};
+
+// Several units within one report type make a network; one unit on each side
+// is a single store, however each export names it
+export const isNetworkImport = (selfSources: MergeSource[], attendantSources: MergeSource[]): boolean =>
+  Math.max(unitNames(selfSources).length, unitNames(attendantSources).length) > 1;
+
+// One entry per unit, each merged the same way a single-unit import is. Unitless
+// exports are left out rather than shown as a unit of their own.
+export const buildUnitReports = (selfSources: MergeSource[], attendantSources: MergeSource[]): UnitReports[] => {
+  const names = new Map<string, string>();
+  const selfGroups = groupByUnit(selfSources.filter(s => !isUnitless(s)), names);
+  const attendantGroups = groupByUnit(attendantSources.filter(s => !isUnitless(s)), names);
+
+  const merge = (key: string, groups: Map<string, MergeSource[]>, type: ReportData['metadata']['reportType']) => {
+    const report = mergeParseResults(groups.get(key) || [], type).report;
+    return report && { ...report, metadata: { ...report.metadata, unitName: names.get(key)! } };
+  };
+
+  return Array.from(names.keys())
+    .map(key => ({
+      unitName: names.get(key)!,
+      selfService: merge(key, selfGroups, 'SELF_SERVICE'),
+      attendant: merge(key, attendantGroups, 'ATTENDANT'),
+      fileNames: [...(selfGroups.get(key) || []), ...(attendantGroups.get(key) || [])].map(s => s.fileName)
+    }))
+    .filter(u => u.selfService || u.attendant)
+    .sort((a, b) => a.unitName.localeCompare(b.unitName));
+};
+
+const summarize = (unitName: string, self: Transaction[], attendant: Transaction[]): UnitSummary => {
+  const revenueOf = (list: Transaction[]) => list.filter(countsAsRevenue).reduce((sum, t) => sum + t.amount, 0);
+  const selfRevenue = revenueOf(self);
+  const attendantRevenue = revenueOf(attendant);
+  const revenue = selfRevenue + attendantRevenue;
+  const sales = [...self, ...attendant].filter(isSale);
+  const machines = new Set(sales.filter(t => countsAsWash(t.type) || countsAsDry(t.type)).map(t => t.machineId));
+
+  return {
+    unitName,
+    revenue,
+    selfRevenue,
+    attendantRevenue,
+    cycles: sales.length,
+    avgTicket: sales.length > 0 ? revenue / sales.length : 0,
+    machineCount: machines.size,
+    revenuePerMachine: machines.size > 0 ? revenue / machines.size : 0
+  };
+};
+
+export const summarizeUnit = (unit: UnitReports): UnitSummary =>
+  summarize(unit.unitName, unit.selfService?.transactions || [], unit.attendant?.transactions || []);
+
+// Consolidated totals; machines are counted per unit, since ids repeat across units
+export const summarizeNetwork = (summaries: UnitSummary[]): UnitSummary => {
+  const total = summaries.reduce((acc, s) => ({
+    ...acc,
+    revenue: acc.revenue + s.revenue,
+    selfRevenue: acc.selfRevenue + s.selfRevenue,
+    attendantRevenue: acc.attendantRevenue + s.attendantRevenue,
+    cycles: acc.cycles + s.cycles,
+    machineCount: acc.machineCount + s.machineCount
+  }), summarize('Rede', [], []));
+  return {
+    ...total,
+    avgTicket: total.cycles > 0 ? total.revenue / total.cycles : 0,
+    revenuePerMachine: total.machineCount > 0 ? total.revenue / total.machineCount : 0
+  };
+};
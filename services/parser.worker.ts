@@ -0,0 +1,17 @@
+import { loadFile, LoadRequest, LoadProgress, LoadedFile } from './fileLoader';
+
+export type ParserWorkerMessage =
+  | { kind: 'PROGRESS'; progress: LoadProgress }
+  | { kind: 'DONE'; loaded: LoadedFile }
+  | { kind: 'ERROR'; message: string };
+
+const post = (message: ParserWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<LoadRequest>) => {
+  try {
+    const loaded = await loadFile(e.data, (progress) => post({ kind: 'PROGRESS', progress }));
+    post({ kind: 'DONE', loaded });
+  } catch (err: any) {
+    post({ kind: 'ERROR', message: err?.message || String(err) });
+  }
+};
@@ -0,0 +1,59 @@
+import { loadFile, LoadRequest, LoadProgress, LoadedFile } from './fileLoader';
+import type { ParserWorkerMessage } from './parser.worker';
+
+export interface ParseJob {
+  promise: Promise<LoadedFile>;
+  cancel: () => void;
+}
+
+const cancelledError = () => new DOMException('Importação cancelada.', 'AbortError');
+
+export const isCancelled = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+// Runs loadFile in a dedicated Web Worker so large exports never block the UI.
+// Each job owns its worker; cancelling terminates it immediately.
+export const startParseJob = (
+  request: LoadRequest,
+  onProgress: (progress: LoadProgress) => void = () => {}
+): ParseJob => {
+  if (typeof Worker === 'undefined') {
+    // No worker support: parse on the calling thread, cancellation only drops the result
+    let cancelled = false;
+    const promise = loadFile(request, (p) => { if (!cancelled) onProgress(p); }).then(loaded => {
+      if (cancelled) throw cancelledError();
+      return loaded;
+    });
+    return { promise, cancel: () => { cancelled = true; } };
+  }
+
+  const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+  let rejectJob: (reason: unknown) => void = () => {};
+
+  const promise = new Promise<LoadedFile>((resolve, reject) => {
+    rejectJob = reject;
+    worker.onmessage = (e: MessageEvent<ParserWorkerMessage>) => {
+      const message = e.data;
+      if (message.kind === 'PROGRESS') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.kind === 'DONE') resolve(message.loaded);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Falha no processamento do arquivo.'));
+    };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(cancelledError());
+    }
+  };
+};
@@ -0,0 +1,160 @@
+import { ReportData, Transaction } from '../types';
+
+// Splits of the loaded range, each comparing its most recent stretch with the
+// stretch just before it
+export type PeriodSplit = 'WEEK' | 'MONTH' | 'HALF';
+
+export const PERIOD_SPLIT_LABELS: Record<PeriodSplit, string> = {
+  WEEK: 'Última semana vs semana anterior',
+  MONTH: 'Mês atual vs mês anterior (mesmos dias)',
+  HALF: 'Segunda metade vs primeira metade'
+};
+
+// Either a split of what is loaded, or a separate export of another period
+export type PeriodComparison =
+  | { kind: 'SPLIT'; split: PeriodSplit }
+  | { kind: 'FILE'; selfService: ReportData | null; attendant: ReportData | null };
+
+export interface PeriodRange {
+  start: string; // yyyy-mm-dd, inclusive
+  end: string;
+}
+
+export interface KpiDelta {
+  absolute: number;
+  percent: number | null; // Null when the previous value is zero
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// businessDate is dd/mm/yyyy; ranges compare as yyyy-mm-dd strings
+const dayKey = (businessDate: string): string => {
+  const [d, m, y] = businessDate.split('/');
+  return `${y}-${m}-${d}`;
+};
+
+const toDate = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const toKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (key: string, days: number): string => {
+  const date = toDate(key);
+  date.setDate(date.getDate() + days);
+  return toKey(date);
+};
+
+export const formatRange = (range: PeriodRange): string => {
+  const format = (key: string) => key.split('-').reverse().join('/');
+  return `${format(range.start)} a ${format(range.end)}`;
+};
+
+// Current and previous stretches of the loaded days; null when the previous
+// stretch isn't fully loaded, since a partial one would inflate every delta
+export const splitPeriod = (
+  transactions: Transaction[],
+  split: PeriodSplit
+): { current: PeriodRange; previous: PeriodRange } | null => {
+  if (transactions.length === 0) return null;
+  const days = transactions.map(t => dayKey(t.businessDate)).sort();
+  const first = days[0];
+  const last = days[days.length - 1];
+
+  switch (split) {
+    case 'WEEK': {
+      const current = { start: addDays(last, -6), end: last };
+      const previous = { start: addDays(last, -13), end: addDays(last, -7) };
+      return previous.start >= first ? { current, previous } : null;
+    }
+    case 'MONTH': {
+      // Month to date vs the same days of the previous month
+      const end = toDate(last);
+      const start = new Date(end.getFullYear(), end.getMonth(), 1);
+      const previousStart = new Date(end.getFullYear(), end.getMonth() - 1, 1);
+      const previousLength = new Date(end.getFullYear(), end.getMonth(), 0).getDate();
+      const previousEnd = new Date(end.getFullYear(), end.getMonth() - 1, Math.min(end.getDate(), previousLength));
+      if (toKey(previousStart) < first) return null;
+      return {
+        current: { start: toKey(start), end: last },
+        previous: { start: toKey(previousStart), end: toKey(previousEnd) }
+      };
+    }
+    case 'HALF': {
+      const span = Math.round((toDate(last).getTime() - toDate(first).getTime()) / DAY_MS) + 1;
+      const half = Math.floor(span / 2);
+      if (half === 0) return null;
+      return {
+        current: { start: addDays(last, -(half - 1)), end: last },
+        previous: { start: addDays(last, -(2 * half - 1)), end: addDays(last, -half) }
+      };
+    }
+  }
+};
+
+export const isInRange = (t: Transaction, range: PeriodRange): boolean => {
+  const key = dayKey(t.businessDate);
+  return key >= range.start && key <= range.end;
+};
+
+// The report limited to one stretch, with the period rewritten to match
+export const restrictReport = (report: ReportData | null, range: PeriodRange): ReportData | null =>
+  report && {
+    transactions: report.transactions.filter(t => isInRange(t, range)),
+    metadata: { ...report.metadata, period: formatRange(range) }
+  };
+
+export const kpiDelta = (current: number, previous: number): KpiDelta => ({
+  absolute: current - previous,
+  percent: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null
+});
+
+// The reports the unit tabs show under a comparison, with the previous
+// period's transactions per channel
+export interface ComparedReports {
+  selfService: ReportData | null;
+  attendant: ReportData | null;
+  previousSelfService: Transaction[] | null; // Null when that channel has nothing to compare with
+  previousAttendant: Transaction[] | null;
+  label: string | null; // The comparison period, e.g. "01/02/2025 a 07/02/2025"
+  unavailable: boolean; // A split was picked but the loaded range is too short
+}
+
+// A split narrows the loaded reports to the recent stretch; a comparison file
+// leaves them as they are
+export const applyComparison = (
+  selfService: ReportData | null,
+  attendant: ReportData | null,
+  comparison: PeriodComparison | null
+): ComparedReports => {
+  const plain: ComparedReports = {
+    selfService, attendant, previousSelfService: null, previousAttendant: null, label: null, unavailable: false
+  };
+  if (!comparison) return plain;
+
+  if (comparison.kind === 'FILE') {
+    const previous = comparison.selfService || comparison.attendant;
+    return {
+      ...plain,
+      previousSelfService: selfService && comparison.selfService ? comparison.selfService.transactions : null,
+      previousAttendant: attendant && comparison.attendant ? comparison.attendant.transactions : null,
+      label: previous ? previous.metadata.period : null
+    };
+  }
+
+  const ranges = splitPeriod(
+    [...(selfService?.transactions || []), ...(attendant?.transactions || [])],
+    comparison.split
+  );
+  if (!ranges) return { ...plain, unavailable: true };
+  return {
+    selfService: restrictReport(selfService, ranges.current),
+    attendant: restrictReport(attendant, ranges.current),
+    previousSelfService: restrictReport(selfService, ranges.previous)?.transactions ?? null,
+    previousAttendant: restrictReport(attendant, ranges.previous)?.transactions ?? null,
+    label: formatRange(ranges.previous),
+    unavailable: false
+  };
+};
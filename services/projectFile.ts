@@ -0,0 +1,275 @@
+import { AppTab, ComparisonFilter, CycleType, ReportData, Transaction, TransactionKind } from '../types';
+import { ClassificationRule } from './classificationRules';
+import { MachineRegistryConfig } from './machineRegistry';
+import { BusinessDayCutoffs } from './businessDay';
+import { UnitReports } from './networkSummary';
+import { PeriodComparison, PeriodSplit } from './periodComparison';
+import { UnitCapacities } from './utilization';
+import { RevenueTargets } from './monthProjection';
+
+// A saved analysis, shared as a single .lavepague.json file. Transactions are
+// stored already tagged, so opening it shows exactly what was on screen
+// without the raw exports or the sender's local settings.
+
+export const PROJECT_FILE_EXTENSION = '.lavepague.json';
+const FILE_KIND = 'lavepague-project';
+export const PROJECT_FILE_VERSION = 1;
+
+export interface ProjectUiState {
+  activeTab: AppTab;
+  comparisonFilter: ComparisonFilter;
+  selectedUnit: string | null; // Unit of the network shown in the unit tabs
+}
+
+export interface ProjectSnapshot {
+  selfService: ReportData | null;
+  attendant: ReportData | null;
+  network: UnitReports[] | null; // Set for multi-unit imports; the unit tabs then show selectedUnit
+  rules: ClassificationRule[];
+  machineConfig: MachineRegistryConfig;
+  cutoffs: BusinessDayCutoffs;
+  capacities: UnitCapacities;
+  targets: RevenueTargets;
+  comparison: PeriodComparison | null;
+  ui: ProjectUiState;
+}
+
+interface ProjectFile extends ProjectSnapshot {
+  kind: typeof FILE_KIND;
+  version: number;
+  savedAt: string; // ISO date
+}
+
+export class ProjectFileError extends Error {}
+
+// Upgrades a file of version N to N + 1. Add an entry whenever the layout
+// changes and bump PROJECT_FILE_VERSION; older files are then walked forward.
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const serializeProject = (snapshot: ProjectSnapshot): string => {
+  const file: ProjectFile = { kind: FILE_KIND, version: PROJECT_FILE_VERSION, savedAt: new Date().toISOString(), ...snapshot };
+  return JSON.stringify(file);
+};
+
+export const projectFileName = (snapshot: ProjectSnapshot): string => {
+  const unit = snapshot.network ? 'rede' : (snapshot.selfService || snapshot.attendant)?.metadata.unitName || 'analise';
+  const slug = unit.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'analise'}-${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`;
+};
+
+// --- Validation ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fail = (path: string, expected: string): never => {
+  throw new ProjectFileError(`Arquivo de projeto inválido: ${path} deveria ser ${expected}.`);
+};
+
+const expectString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : fail(path, 'texto');
+
+const expectNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'número');
+
+const expectRecord = (value: unknown, path: string): Record<string, unknown> =>
+  isRecord(value) ? value : fail(path, 'objeto');
+
+const expectArray = (value: unknown, path: string): unknown[] =>
+  Array.isArray(value) ? value : fail(path, 'lista');
+
+const expectOneOf = <T extends string>(value: unknown, options: readonly T[], path: string): T =>
+  options.includes(value as T) ? value as T : fail(path, `um de ${options.join(', ')}`);
+
+const CYCLE_TYPES = Object.values(CycleType);
+const KINDS = Object.values(TransactionKind);
+const REPORT_TYPES = ['SELF_SERVICE', 'ATTENDANT'] as const;
+const TABS: readonly AppTab[] = ['NETWORK', 'SELF_SERVICE', 'ATTENDANT', 'COMPARISON', 'FINANCIAL', 'UTILIZATION', 'SESSIONS'];
+const FILTERS: readonly ComparisonFilter[] = ['BOTH', 'SELF', 'ATTENDANT'];
+const SPLITS: readonly PeriodSplit[] = ['WEEK', 'MONTH', 'HALF'];
+
+const readTransaction = (value: unknown, path: string): Transaction => {
+  const t = expectRecord(value, path);
+  const date = new Date(expectString(t.date, `${path}.date`));
+  if (isNaN(date.getTime())) fail(`${path}.date`, 'uma data');
+  return {
+    id: expectString(t.id, `${path}.id`),
+    date,
+    rawDate: expectString(t.rawDate, `${path}.rawDate`),
+    rawTime: expectString(t.rawTime, `${path}.rawTime`),
+    productName: expectString(t.productName, `${path}.productName`),
+    type: expectOneOf(t.type, CYCLE_TYPES, `${path}.type`),
+    kind: expectOneOf(t.kind, KINDS, `${path}.kind`),
+    amount: expectNumber(t.amount, `${path}.amount`),
+    paymentMethod: expectString(t.paymentMethod, `${path}.paymentMethod`),
+    machine: expectString(t.machine, `${path}.machine`),
+    machineId: expectString(t.machineId, `${path}.machineId`),
+    dayOfWeek: expectNumber(t.dayOfWeek, `${path}.dayOfWeek`),
+    businessDate: expectString(t.businessDate, `${path}.businessDate`),
+    businessDayOfWeek: expectNumber(t.businessDayOfWeek, `${path}.businessDayOfWeek`)
+  };
+};
+
+const readReport = (value: unknown, path: string): ReportData | null => {
+  if (value === null) return null;
+  const report = expectRecord(value, path);
+  const metadata = expectRecord(report.metadata, `${path}.metadata`);
+  return {
+    transactions: expectArray(report.transactions, `${path}.transactions`)
+      .map((t, idx) => readTransaction(t, `${path}.transactions[${idx}]`)),
+    metadata: {
+      unitName: expectString(metadata.unitName, `${path}.metadata.unitName`),
+      period: expectString(metadata.period, `${path}.metadata.period`),
+      reportType: expectOneOf(metadata.reportType, REPORT_TYPES, `${path}.metadata.reportType`)
+    }
+  };
+};
+
+const readNetwork = (value: unknown, path: string): UnitReports[] | null => {
+  if (value === null) return null;
+  return expectArray(value, path).map((item, idx) => {
+    const unit = expectRecord(item, `${path}[${idx}]`);
+    return {
+      unitName: expectString(unit.unitName, `${path}[${idx}].unitName`),
+      selfService: readReport(unit.selfService, `${path}[${idx}].selfService`),
+      attendant: readReport(unit.attendant, `${path}[${idx}].attendant`),
+      fileNames: expectArray(unit.fileNames, `${path}[${idx}].fileNames`)
+        .map((name, i) => expectString(name, `${path}[${idx}].fileNames[${i}]`))
+    };
+  });
+};
+
+const readRules = (value: unknown): ClassificationRule[] =>
+  expectArray(value, 'rules').map((item, idx) => {
+    const rule = expectRecord(item, `rules[${idx}]`);
+    return {
+      id: expectString(rule.id, `rules[${idx}].id`),
+      match: expectOneOf(rule.match, ['CONTAINS', 'EXACT', 'REGEX'] as const, `rules[${idx}].match`),
+      pattern: expectString(rule.pattern, `rules[${idx}].pattern`),
+      category: expectOneOf(rule.category, CYCLE_TYPES, `rules[${idx}].category`)
+    };
+  });
+
+const readMachineConfig = (value: unknown): MachineRegistryConfig => {
+  const config = expectRecord(value, 'machineConfig');
+  const machines = expectRecord(config.machines, 'machineConfig.machines');
+  const aliases = expectRecord(config.aliases, 'machineConfig.aliases');
+  Object.entries(machines).forEach(([id, settings]) => expectRecord(settings, `machineConfig.machines.${id}`));
+  Object.entries(aliases).forEach(([id, target]) => expectString(target, `machineConfig.aliases.${id}`));
+  return { machines, aliases } as MachineRegistryConfig;
+};
+
+const readCutoffs = (value: unknown): BusinessDayCutoffs => {
+  const cutoffs = expectRecord(value, 'cutoffs');
+  Object.entries(cutoffs).forEach(([unit, cutoff]) => expectString(cutoff, `cutoffs.${unit}`));
+  return cutoffs as BusinessDayCutoffs;
+};
+
+const readCapacities = (value: unknown): UnitCapacities => {
+  const capacities = expectRecord(value, 'capacities');
+  return Object.fromEntries(Object.entries(capacities).map(([unit, item]) => {
+    const settings = expectRecord(item, `capacities.${unit}`);
+    return [unit, {
+      opensAt: expectString(settings.opensAt, `capacities.${unit}.opensAt`),
+      closesAt: expectString(settings.closesAt, `capacities.${unit}.closesAt`),
+      washMinutes: expectNumber(settings.washMinutes, `capacities.${unit}.washMinutes`),
+      dryMinutes: expectNumber(settings.dryMinutes, `capacities.${unit}.dryMinutes`),
+      dryWindowMinutes: expectNumber(settings.dryWindowMinutes, `capacities.${unit}.dryWindowMinutes`)
+    }];
+  }));
+};
+
+const readTargets = (value: unknown): RevenueTargets => {
+  const targets = expectRecord(value, 'targets');
+  Object.entries(targets).forEach(([unit, target]) => expectNumber(target, `targets.${unit}`));
+  return targets as RevenueTargets;
+};
+
+const readComparison = (value: unknown): PeriodComparison | null => {
+  if (value === null) return null;
+  const comparison = expectRecord(value, 'comparison');
+  const kind = expectOneOf(comparison.kind, ['SPLIT', 'FILE'] as const, 'comparison.kind');
+  return kind === 'SPLIT'
+    ? { kind, split: expectOneOf(comparison.split, SPLITS, 'comparison.split') }
+    : {
+      kind,
+      selfService: readReport(comparison.selfService, 'comparison.selfService'),
+      attendant: readReport(comparison.attendant, 'comparison.attendant')
+    };
+};
+
+const readUi = (value: unknown): ProjectUiState => {
+  const ui = expectRecord(value, 'ui');
+  return {
+    activeTab: expectOneOf(ui.activeTab, TABS, 'ui.activeTab'),
+    comparisonFilter: expectOneOf(ui.comparisonFilter, FILTERS, 'ui.comparisonFilter'),
+    selectedUnit: ui.selectedUnit === null ? null : expectString(ui.selectedUnit, 'ui.selectedUnit')
+  };
+};
+
+// Throws ProjectFileError with a message fit for the user
+export const parseProject = (text: string): ProjectSnapshot => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('O arquivo não é um projeto do Lave & Pague (JSON inválido).');
+  }
+  if (!isRecord(raw) || raw.kind !== FILE_KIND) {
+    throw new ProjectFileError('O arquivo não é um projeto do Lave & Pague.');
+  }
+
+  let file = raw;
+  let version = expectNumber(file.version, 'version');
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError('Este projeto foi salvo por uma versão mais nova do aplicativo. Atualize a página e tente novamente.');
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new ProjectFileError(`Versão de projeto não suportada: ${version}.`);
+    file = migrate(file);
+    version++;
+  }
+
+  const snapshot: ProjectSnapshot = {
+    selfService: readReport(file.selfService, 'selfService'),
+    attendant: readReport(file.attendant, 'attendant'),
+    network: readNetwork(file.network, 'network'),
+    rules: readRules(file.rules),
+    machineConfig: readMachineConfig(file.machineConfig),
+    cutoffs: readCutoffs(file.cutoffs),
+    capacities: readCapacities(file.capacities),
+    targets: readTargets(file.targets),
+    comparison: readComparison(file.comparison),
+    ui: readUi(file.ui)
+  };
+  if (!snapshot.selfService && !snapshot.attendant && !snapshot.network) {
+    throw new ProjectFileError('O projeto não contém nenhum relatório.');
+  }
+  return snapshot;
+};
+
+// --- Settings ---
+
+// The settings a project carries, as this device also saves them
+export type ProjectSettings = Pick<ProjectSnapshot, 'rules' | 'machineConfig' | 'cutoffs' | 'capacities' | 'targets'>;
+
+// Key order differs between what the editors save and what a project file holds
+const sortedKeys = (value: unknown): unknown =>
+  Array.isArray(value) ? value.map(sortedKeys)
+    : isRecord(value) ? Object.fromEntries(Object.keys(value).sort().map(key => [key, sortedKeys(value[key])]))
+    : value;
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(sortedKeys(a)) === JSON.stringify(sortedKeys(b));
+
+// True when opening the project would change a saved setting; the per-unit
+// settings only count for the units the project carries
+export const settingsDiffer = (project: ProjectSettings, saved: ProjectSettings): boolean => {
+  const sameUnits = <T>(projected: Record<string, T>, local: Record<string, T>) =>
+    Object.entries(projected).every(([unitName, value]) => sameValue(value, local[unitName]));
+  return !sameValue(project.rules, saved.rules)
+    || !sameValue(project.machineConfig, saved.machineConfig)
+    || !sameUnits(project.cutoffs, saved.cutoffs)
+    || !sameUnits(project.capacities, saved.capacities)
+    || !sameUnits(project.targets, saved.targets);
+};
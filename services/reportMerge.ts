@@ -0,0 +1,68 @@
+import { DashboardMetadata, ReportData } from '../types';
+import { ParseResult } from './csvParser';
+import { formatDate } from './businessDay';
+
+export interface MergeSource {
+  fileName: string;
+  result: ParseResult;
+}
+
+export interface DuplicateStats {
+  removed: number;
+  byFile: { fileName: string; removed: number }[]; // Only files that lost rows
+}
+
+export interface MergedReport {
+  report: ReportData | null;
+  duplicates: DuplicateStats;
+}
+
+// Combine several parsed files of the same report type into a single report.
+// Transactions whose id was already seen in an earlier file are dropped, so
+// overlapping exports (e.g. 01–15 and 10–31) count the overlap only once.
+// The period is rebuilt from the actual date range when more than one file is involved.
+export const mergeParseResults = (
+  sources: MergeSource[],
+  reportType: DashboardMetadata['reportType']
+): MergedReport => {
+  const withData = sources.filter(s => s.result.transactions.length > 0);
+  const duplicates: DuplicateStats = { removed: 0, byFile: [] };
+  if (withData.length === 0) return { report: null, duplicates };
+
+  if (withData.length === 1) {
+    const { transactions, metadata } = withData[0].result;
+    return { report: { transactions, metadata: { ...metadata, reportType } }, duplicates };
+  }
+
+  const seen = new Set<string>();
+  const merged = withData.flatMap(({ fileName, result }) => {
+    const kept = result.transactions.filter(t => {
+      if (seen.has(t.id)) return false;
+      seen.add(t.id);
+      return true;
+    });
+    const removed = result.transactions.length - kept.length;
+    if (removed > 0) {
+      duplicates.removed += removed;
+      duplicates.byFile.push({ fileName, removed });
+    }
+    return kept;
+  });
+
+  const transactions = merged.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const unitNames = Array.from(new Set(withData.map(s => s.result.metadata.unitName)));
+  const first = transactions[0].date;
+  const last = transactions[transactions.length - 1].date;
+
+  return {
+    report: {
+      transactions,
+      metadata: {
+        unitName: unitNames.join(' / '),
+        period: `${formatDate(first)} - ${formatDate(last)}`,
+        reportType
+      }
+    },
+    duplicates
+  };
+};
@@ -0,0 +1,138 @@
+import { CycleType, Transaction } from '../types';
+import { isSale } from './transactionKind';
+import { UnitCapacitySettings } from './utilization';
+import { median } from './stats';
+
+// Self-service visits rebuilt from the sales log. The reports carry no
+// customer id, so a visit is inferred: washes paid the same way within a few
+// minutes of each other are one customer, and a dry starting within the
+// configured window after those washes end continues the same visit.
+
+export type VisitKind = 'WASH_DRY' | 'WASH_ONLY' | 'DRY_ONLY';
+
+export const VISIT_KIND_LABELS: Record<VisitKind, string> = {
+  WASH_DRY: 'Lavou e secou',
+  WASH_ONLY: 'Só lavou',
+  DRY_ONLY: 'Só secou'
+};
+
+export interface Visit {
+  kind: VisitKind;
+  start: Date;
+  washes: number;
+  dries: number;
+  spend: number;
+  paymentMethod: string;
+}
+
+export interface SessionReport {
+  visits: Visit[];
+  washVisits: number; // Visits with at least one wash
+  convertedVisits: number; // ...that also dried
+  conversionRate: number; // 0-1 of washVisits
+  washOnlyVisits: number;
+  dryOnlyVisits: number;
+  avgVisitSpend: number;
+  avgSpendByKind: Record<VisitKind, number>;
+  medianWaitMinutes: number | null; // Between the wash ending and the dry starting
+  byHour: ({ hour: number } & Record<VisitKind, number>)[];
+}
+
+// Washes started this close together with the same payment method are one customer
+const GROUP_MINUTES = 5;
+// A dry may be logged slightly before the configured wash length runs out
+const EARLY_DRY_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+interface OpenVisit extends Visit {
+  washEnd: number; // ms; when the last wash of the visit finishes
+}
+
+const average = (visits: Visit[]): number =>
+  visits.length > 0 ? visits.reduce((sum, v) => sum + v.spend, 0) / visits.length : 0;
+
+export const reconstructSessions = (transactions: Transaction[], settings: UnitCapacitySettings): SessionReport => {
+  const sales = transactions.filter(isSale).sort((a, b) => a.date.getTime() - b.date.getTime());
+  const washLength = settings.washMinutes * MINUTE_MS;
+  const window = settings.dryWindowMinutes * MINUTE_MS;
+
+  const visits: OpenVisit[] = [];
+  const waits: number[] = [];
+  // Visits are created in time order, so only the tail can still take a sale
+  const startedSince = (since: number): OpenVisit[] => {
+    const recent: OpenVisit[] = [];
+    for (let i = visits.length - 1; i >= 0 && visits[i].start.getTime() >= since; i--) recent.push(visits[i]);
+    return recent;
+  };
+
+  sales.forEach(t => {
+    const time = t.date.getTime();
+
+    // A combo is a whole wash-and-dry visit in one sale
+    if (t.type === CycleType.COMBO) {
+      visits.push({ kind: 'WASH_DRY', start: t.date, washes: 1, dries: 1, spend: t.amount, paymentMethod: t.paymentMethod, washEnd: time + washLength });
+      return;
+    }
+
+    if (t.type === CycleType.WASH) {
+      const group = startedSince(time - GROUP_MINUTES * MINUTE_MS).find(v =>
+        v.dries === 0 && v.washes > 0 && v.paymentMethod === t.paymentMethod
+      );
+      if (group) {
+        group.washes++;
+        group.spend += t.amount;
+        group.washEnd = Math.max(group.washEnd, time + washLength);
+      } else {
+        visits.push({ kind: 'WASH_ONLY', start: t.date, washes: 1, dries: 0, spend: t.amount, paymentMethod: t.paymentMethod, washEnd: time + washLength });
+      }
+      return;
+    }
+
+    if (t.type === CycleType.DRY) {
+      // Visits whose washes just finished and still have a load to dry; the
+      // same payment method wins, then the wash that ended closest to now
+      const candidates = startedSince(time - washLength - window - GROUP_MINUTES * MINUTE_MS).filter(v =>
+        v.washes > v.dries
+        && time >= v.washEnd - EARLY_DRY_MINUTES * MINUTE_MS
+        && time <= v.washEnd + window
+      );
+      const best = candidates.sort((a, b) =>
+        Number(b.paymentMethod === t.paymentMethod) - Number(a.paymentMethod === t.paymentMethod)
+        || Math.abs(time - a.washEnd) - Math.abs(time - b.washEnd)
+      )[0];
+      if (best) {
+        if (best.dries === 0) waits.push(Math.max(0, time - best.washEnd) / MINUTE_MS);
+        best.dries++;
+        best.spend += t.amount;
+        best.kind = 'WASH_DRY';
+      } else {
+        visits.push({ kind: 'DRY_ONLY', start: t.date, washes: 0, dries: 1, spend: t.amount, paymentMethod: t.paymentMethod, washEnd: time });
+      }
+    }
+  });
+
+  const ofKind = (kind: VisitKind) => visits.filter(v => v.kind === kind);
+  const washVisits = visits.filter(v => v.washes > 0).length;
+  const convertedVisits = ofKind('WASH_DRY').length;
+
+  const byHour = new Array(24).fill(0).map((_, hour) => ({ hour, WASH_DRY: 0, WASH_ONLY: 0, DRY_ONLY: 0 }));
+  visits.forEach(v => { byHour[v.start.getHours()][v.kind]++; });
+
+  return {
+    visits: visits.map(({ washEnd, ...visit }) => visit),
+    washVisits,
+    convertedVisits,
+    conversionRate: washVisits > 0 ? convertedVisits / washVisits : 0,
+    washOnlyVisits: ofKind('WASH_ONLY').length,
+    dryOnlyVisits: ofKind('DRY_ONLY').length,
+    avgVisitSpend: average(visits),
+    avgSpendByKind: {
+      WASH_DRY: average(ofKind('WASH_DRY')),
+      WASH_ONLY: average(ofKind('WASH_ONLY')),
+      DRY_ONLY: average(ofKind('DRY_ONLY'))
+    },
+    medianWaitMinutes: waits.length > 0 ? median(waits) : null,
+    byHour
+  };
+};
@@ -0,0 +1,6 @@
+// Kept apart from spreadsheetReader so checking a file name does not pull xlsx
+// into the main bundle
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+export const isSpreadsheetFile = (fileName: string): boolean =>
+  SPREADSHEET_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
@@ -0,0 +1,87 @@
+import { read, utils, SSF, CellObject, WorkSheet } from 'xlsx';
+import { detectTextFormat, CsvFormat } from './csvParser';
+
+export interface SpreadsheetText {
+  text: string; // Sheet rendered as CSV, in the same shape as the POS CSV export
+  sheetName: string;
+  sheetNames: string[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDateParts = (p: { y: number; m: number; d: number; H: number; M: number; S: number }, hasDate: boolean): string => {
+  const date = `${pad(p.d)}/${pad(p.m)}/${p.y}`;
+  const time = `${pad(p.H)}:${pad(p.M)}:${pad(p.S)}`;
+  if (!hasDate) return time;
+  return p.H === 0 && p.M === 0 && p.S === 0 ? date : `${date} ${time}`;
+};
+
+// Render a cell the way the CSV export writes it: dd/mm/yyyy dates, HH:MM:SS times
+// and decimal commas, so parseCurrency and the date checks behave identically
+const cellToText = (cell: CellObject | undefined): string => {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+
+  if (cell.t === 'd' && cell.v instanceof Date) {
+    const d = cell.v;
+    return formatDateParts(
+      { y: d.getFullYear(), m: d.getMonth() + 1, d: d.getDate(), H: d.getHours(), M: d.getMinutes(), S: d.getSeconds() },
+      d.getFullYear() > 1900
+    );
+  }
+
+  if (cell.t === 'n' && typeof cell.v === 'number') {
+    if (cell.z && SSF.is_date(cell.z)) {
+      const parts = SSF.parse_date_code(cell.v);
+      // Serial values below 1 carry only a time of day
+      return formatDateParts(parts, cell.v >= 1);
+    }
+    return String(cell.v).replace('.', ',');
+  }
+
+  if (cell.t === 'b') return cell.v ? 'VERDADEIRO' : 'FALSO';
+
+  return String(cell.w ?? cell.v);
+};
+
+const quoteCsv = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const sheetToCsv = (sheet: WorkSheet): string => {
+  if (!sheet['!ref']) return '';
+  const range = utils.decode_range(sheet['!ref']);
+  const lines: string[] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(quoteCsv(cellToText(sheet[utils.encode_cell({ r, c })])));
+    }
+    lines.push(row.join(','));
+  }
+  return lines.join('\n');
+};
+
+// Convert a workbook to CSV text. Without an explicit sheet, the first sheet whose
+// content matches a known report format is used, falling back to the first sheet.
+export const readSpreadsheet = (bytes: Uint8Array, sheetName?: string): SpreadsheetText => {
+  const workbook = read(bytes, { type: 'array', cellNF: true });
+  const sheetNames = workbook.SheetNames;
+  if (sheetNames.length === 0) {
+    throw new Error('A planilha não contém abas.');
+  }
+
+  if (sheetName) {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) throw new Error(`Aba "${sheetName}" não encontrada.`);
+    return { text: sheetToCsv(sheet), sheetName, sheetNames };
+  }
+
+  let fallback: SpreadsheetText | null = null;
+  for (const name of sheetNames) {
+    const text = sheetToCsv(workbook.Sheets[name]);
+    if (detectTextFormat(text, ',') !== CsvFormat.UNKNOWN) {
+      return { text, sheetName: name, sheetNames };
+    }
+    if (!fallback) fallback = { text, sheetName: name, sheetNames };
+  }
+  return fallback!;
+};
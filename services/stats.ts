@@ -0,0 +1,9 @@
+// Small numeric helpers shared by the analysis services
+
+// Middle value, or the mean of the two middle ones; 0 for no values
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
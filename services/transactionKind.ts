@@ -0,0 +1,48 @@
+import { Transaction, TransactionKind } from '../types';
+
+export const TRANSACTION_KIND_LABELS: Record<TransactionKind, string> = {
+  [TransactionKind.SALE]: 'Venda',
+  [TransactionKind.REFUND]: 'Estorno',
+  [TransactionKind.CANCELLED]: 'Cancelada'
+};
+
+// Status cells and product/payment texts that mark a row as not being a plain sale
+const CANCEL_PATTERN = /cancel|anulad|desfeit/;
+const REFUND_PATTERN = /estorn|reembols|devoluc|devolvid|chargeback/;
+
+const normalize = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Keywords win over the sign: a cancelled row is cancelled even when exported as
+// a negative value, and a refund keyword marks a positive value as money going back
+export const detectTransactionKind = (amount: number, texts: string[]): TransactionKind => {
+  const text = normalize(texts.filter(Boolean).join(' '));
+  if (CANCEL_PATTERN.test(text)) return TransactionKind.CANCELLED;
+  if (REFUND_PATTERN.test(text) || amount < 0) return TransactionKind.REFUND;
+  return TransactionKind.SALE;
+};
+
+// Cycles, usage and rankings count sales only
+export const isSale = (t: Transaction): boolean => t.kind === TransactionKind.SALE;
+
+// Revenue is net: sales plus (negative) refunds; cancelled rows never count
+export const countsAsRevenue = (t: Transaction): boolean => t.kind !== TransactionKind.CANCELLED;
+
+export interface RefundSummary {
+  refundCount: number;
+  refundValue: number; // Positive amount returned to customers
+  cancelledCount: number;
+  cancelledValue: number;
+}
+
+export const summarizeRefunds = (transactions: Transaction[]): RefundSummary =>
+  transactions.reduce<RefundSummary>((acc, t) => {
+    if (t.kind === TransactionKind.REFUND) {
+      acc.refundCount++;
+      acc.refundValue += Math.abs(t.amount);
+    } else if (t.kind === TransactionKind.CANCELLED) {
+      acc.cancelledCount++;
+      acc.cancelledValue += Math.abs(t.amount);
+    }
+    return acc;
+  }, { refundCount: 0, refundValue: 0, cancelledCount: 0, cancelledValue: 0 });
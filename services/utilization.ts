@@ -0,0 +1,211 @@
+import { Transaction } from '../types';
+import { MachineKind, MachineRegistryConfig, buildMachineRegistry } from './machineRegistry';
+import { isSale } from './transactionKind';
+import { DAY_NAMES } from './dashboardStats';
+import { eachBusinessDay, parseBusinessDate } from './businessDay';
+
+// Opening hours and cycle length of one unit. Use counts only mean something
+// against the time the machines could have been running.
+export interface UnitCapacitySettings {
+  opensAt: string; // "HH:MM"
+  closesAt: string; // "HH:MM"; equal to opensAt means open 24h, earlier means past midnight
+  washMinutes: number;
+  dryMinutes: number;
+  dryWindowMinutes: number; // After a wash ends, a dry started within this belongs to the same visit
+}
+
+export type UnitCapacities = Record<string, UnitCapacitySettings>;
+
+export const DEFAULT_CAPACITY: UnitCapacitySettings = {
+  opensAt: '00:00',
+  closesAt: '00:00',
+  washMinutes: 35,
+  dryMinutes: 45,
+  dryWindowMinutes: 30
+};
+
+// Machines with a known cycle length; the rest (e.g. supplies) take no machine time
+type TimedKind = Exclude<MachineKind, 'OTHER'>;
+
+// Share of its busiest hour a machine must be running to count as saturated
+export const SATURATION_THRESHOLD = 0.85;
+
+export interface MachineUtilization {
+  id: string;
+  label: string;
+  kind: TimedKind;
+  uses: number;
+  busyHours: number;
+  availableHours: number;
+  utilization: number; // 0-1 of the open time
+  peakHour: number;
+  peakHourUtilization: number; // 0-1, busiest clock hour
+  saturated: boolean;
+}
+
+export interface UtilizationSlot {
+  washer: number | null; // 0-1; null when no machine of that kind was available
+  dryer: number | null;
+}
+
+export interface UtilizationReport {
+  machines: MachineUtilization[];
+  byHour: (UtilizationSlot & { hour: number })[];
+  byWeekday: (UtilizationSlot & { dayIndex: number; name: string })[];
+  busyHours: number;
+  availableHours: number;
+  idleHours: number;
+  utilization: number;
+  days: number; // Calendar days in the loaded range
+}
+
+const toMinutes = (time: string): number => {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? (parseInt(match[1], 10) * 60 + parseInt(match[2], 10)) % (24 * 60) : 0;
+};
+
+// Open minutes within each clock hour of a day
+export const openMinutesByHour = (settings: UnitCapacitySettings): number[] => {
+  const opens = toMinutes(settings.opensAt);
+  const closes = toMinutes(settings.closesAt);
+  const isOpen = (minute: number) =>
+    opens === closes ? true : opens < closes ? minute >= opens && minute < closes : minute >= opens || minute < closes;
+  return new Array(24).fill(0).map((_, hour) => {
+    let open = 0;
+    for (let m = hour * 60; m < (hour + 1) * 60; m++) if (isOpen(m)) open++;
+    return open;
+  });
+};
+
+const parseInstalledAt = (installedAt: string): Date => {
+  const [y, m, d] = installedAt.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Minutes of a cycle falling into each clock hour, starting at the sale time
+const spreadOverHours = (start: Date, duration: number, busyByHour: number[]) => {
+  let minute = start.getHours() * 60 + start.getMinutes();
+  let remaining = duration;
+  while (remaining > 0) {
+    const take = Math.min(remaining, 60 - (minute % 60));
+    busyByHour[Math.floor(minute / 60) % 24] += take;
+    minute += take;
+    remaining -= take;
+  }
+};
+
+const ratio = (busy: number, available: number): number | null => available > 0 ? busy / available : null;
+
+export const computeUtilization = (
+  transactions: Transaction[],
+  settings: UnitCapacitySettings,
+  machineConfig: MachineRegistryConfig
+): UtilizationReport => {
+  const sales = transactions.filter(isSale);
+  const openByHour = openMinutesByHour(settings);
+  const openPerDay = openByHour.reduce((sum, m) => sum + m, 0);
+
+  // Every calendar day of the loaded range, gaps included: a day without sales is idle time
+  const days = eachBusinessDay(sales.map(t => parseBusinessDate(t.businessDate)));
+
+  const registry = buildMachineRegistry(sales.map(t => t.productName), machineConfig);
+  const durationOf = (kind: TimedKind) => kind === 'WASHER' ? settings.washMinutes : settings.dryMinutes;
+
+  const busyHourByKind = { WASHER: new Array(24).fill(0), DRYER: new Array(24).fill(0) };
+  const availableHourByKind = { WASHER: new Array(24).fill(0), DRYER: new Array(24).fill(0) };
+  const busyWeekdayByKind = { WASHER: new Array(7).fill(0), DRYER: new Array(7).fill(0) };
+  const availableWeekdayByKind = { WASHER: new Array(7).fill(0), DRYER: new Array(7).fill(0) };
+
+  const salesByMachine = new Map<string, Transaction[]>();
+  sales.forEach(t => {
+    const list = salesByMachine.get(t.machineId);
+    if (list) list.push(t);
+    else salesByMachine.set(t.machineId, [t]);
+  });
+
+  const machines: MachineUtilization[] = [];
+  registry.machines.forEach(info => {
+    // Unnumbered products (e.g. the attendant's "Lavar e Dobrar") are services, not machines
+    if (info.kind === 'OTHER' || info.number === null) return;
+    const kind = info.kind;
+    const duration = durationOf(kind);
+    const uses = salesByMachine.get(info.id) || [];
+
+    // A machine installed mid-range only counts from its installation day
+    const installed = info.installedAt ? parseInstalledAt(info.installedAt) : null;
+    const availableDays = installed ? days.filter(d => d >= installed) : days;
+
+    const busyByHour = new Array(24).fill(0);
+    uses.forEach(t => {
+      spreadOverHours(t.date, duration, busyByHour);
+      busyWeekdayByKind[kind][t.businessDayOfWeek] += duration;
+    });
+    busyByHour.forEach((m, hour) => {
+      busyHourByKind[kind][hour] += m;
+      availableHourByKind[kind][hour] += openByHour[hour] * availableDays.length;
+    });
+    availableDays.forEach(d => { availableWeekdayByKind[kind][d.getDay()] += openPerDay; });
+
+    const busy = uses.length * duration;
+    const available = openPerDay * availableDays.length;
+    const hourly = busyByHour.map((m, hour) => ratio(m, openByHour[hour] * availableDays.length) ?? 0);
+    const peakHour = hourly.reduce((best, value, hour) => value > hourly[best] ? hour : best, 0);
+
+    machines.push({
+      id: info.id,
+      label: info.label,
+      kind,
+      uses: uses.length,
+      busyHours: busy / 60,
+      availableHours: available / 60,
+      utilization: ratio(busy, available) ?? 0,
+      peakHour,
+      peakHourUtilization: hourly[peakHour],
+      saturated: hourly[peakHour] >= SATURATION_THRESHOLD
+    });
+  });
+
+  const slot = (busy: Record<TimedKind, number[]>, available: Record<TimedKind, number[]>, index: number): UtilizationSlot => ({
+    washer: ratio(busy.WASHER[index], available.WASHER[index]),
+    dryer: ratio(busy.DRYER[index], available.DRYER[index])
+  });
+
+  const busyMinutes = machines.reduce((sum, m) => sum + m.busyHours * 60, 0);
+  const availableMinutes = machines.reduce((sum, m) => sum + m.availableHours * 60, 0);
+
+  return {
+    machines: machines.sort((a, b) => b.utilization - a.utilization),
+    byHour: openByHour.map((_, hour) => ({ hour, ...slot(busyHourByKind, availableHourByKind, hour) })),
+    byWeekday: DAY_NAMES.map((name, dayIndex) => ({ dayIndex, name, ...slot(busyWeekdayByKind, availableWeekdayByKind, dayIndex) })),
+    busyHours: busyMinutes / 60,
+    availableHours: availableMinutes / 60,
+    idleHours: Math.max(0, availableMinutes - busyMinutes) / 60,
+    utilization: ratio(busyMinutes, availableMinutes) ?? 0,
+    days: days.length
+  };
+};
+
+// --- Local persistence ---
+
+const STORAGE_KEY = 'lavepague.unitCapacities';
+
+export const capacityForUnit = (capacities: UnitCapacities, unitName: string): UnitCapacitySettings =>
+  ({ ...DEFAULT_CAPACITY, ...capacities[unitName] });
+
+export const loadCapacities = (): UnitCapacities => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // Settings saved before a field existed get its default
+    const stored: UnitCapacities = raw ? JSON.parse(raw) : {};
+    return Object.fromEntries(Object.entries(stored).map(([unit, settings]) => [unit, { ...DEFAULT_CAPACITY, ...settings }]));
+  } catch (err) {
+    console.error(err);
+    return {};
+  }
+};
+
+export const saveCapacity = (unitName: string, settings: UnitCapacitySettings): UnitCapacities => {
+  const next = { ...loadCapacities(), [unitName]: settings };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
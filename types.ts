@@ -1,24 +1,37 @@
 export enum CycleType {
   WASH = 'LAVAR',
   DRY = 'SECAR',
+  COMBO = 'LAVAR_SECAR', // Wash + dry sold together; counts as one of each
+  SUPPLIES = 'INSUMOS', // Detergent, softener and other supplies
+  SERVICE_BY_WEIGHT = 'SERVICO_KG', // Attendant services priced by weight (e.g. Lavar e Dobrar)
   UNKNOWN = 'OUTRO'
 }
 
+export enum TransactionKind {
+  SALE = 'VENDA',
+  REFUND = 'ESTORNO', // Money returned to the customer; amount is stored negative
+  CANCELLED = 'CANCELADA' // Sale voided before completion; excluded from cycles and revenue
+}
+
 export interface RawCsvRow {
   [key: string]: string;
 }
 
 export interface Transaction {
-  id: string;
+  id: string; // Content-based: date, time, machine, amount, payment + occurrence
   date: Date; // Combined Date object
   rawDate: string; // Original string dd/mm/yyyy
   rawTime: string; // Original string HH:MM:SS
   productName: string;
   type: CycleType;
-  amount: number;
+  kind: TransactionKind;
+  amount: number; // Negative for refunds
   paymentMethod: string;
-  machine: string;
+  machine: string; // Display name of the canonical machine (see machineRegistry)
+  machineId: string; // Canonical machine key; charts group by this, not by the raw name
   dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  businessDate: string; // Operational day dd/mm/yyyy, shifted back before the unit's cutoff
+  businessDayOfWeek: number; // Weekday of businessDate
 }
 
 export interface DashboardMetadata {
@@ -27,6 +40,11 @@ export interface DashboardMetadata {
   reportType: 'SELF_SERVICE' | 'ATTENDANT';
 }
 
+export interface ReportData {
+  transactions: Transaction[];
+  metadata: DashboardMetadata;
+}
+
 export interface DailyMetric {
   date: string; // dd/mm/yyyy for grouping
   revenue: number;
@@ -49,6 +67,12 @@ export interface ExportOptions {
   includeFinancial: boolean;
 }
 
+// Top-level views of a loaded analysis
+export type AppTab = 'NETWORK' | 'SELF_SERVICE' | 'ATTENDANT' | 'COMPARISON' | 'FINANCIAL' | 'UTILIZATION' | 'SESSIONS';
+
+// Channel filter of the comparative view
+export type ComparisonFilter = 'BOTH' | 'SELF' | 'ATTENDANT';
+
 // Common props for components that support printing
 export interface PrintProps {
   printMode?: boolean;
@@ -9,5 +9,14 @@ export default defineConfig({
     outDir: 'dist',
     assetsDir: 'assets',
     sourcemap: false
+  },
+  // The parser worker is started with type: 'module' and loads xlsx on demand
+  worker: {
+    format: 'es'
+  },
+  // Only used by the CLI build (build:cli): xlsx is CommonJS and its named
+  // exports cannot be imported from Node ESM, so it is bundled in
+  ssr: {
+    noExternal: ['xlsx']
   }
 });
\ No newline at end of file